@@ -0,0 +1,481 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {CallOptions, ServiceError, Status} from 'google-gax';
+import {google} from '../protos/protos';
+import {Datastore} from '.';
+import {Entity, entity} from './entity';
+import {ConflictError} from './errors';
+import {
+  CommitApiResponse,
+  DatastoreRequest,
+  DeleteEntry,
+  WriteResult,
+} from './request';
+import {buildPreconditions} from './utils/entity/buildPreconditions';
+import {buildSaveMutation} from './utils/entity/buildSaveMutation';
+import {buildWriteResults} from './utils/entity/buildWriteResults';
+
+/**
+ * The most mutations Datastore accepts in a single commit.
+ */
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * The ramp-up of the write rate, following the 500/50/5 guidance: start at
+ * 500 operations per second and increase the rate by 50% every 5 minutes.
+ */
+const DEFAULT_INITIAL_OPS_PER_SECOND = 500;
+const DEFAULT_MAX_OPS_PER_SECOND = 10000;
+const RATE_LIMITER_MULTIPLIER = 1.5;
+const RATE_LIMITER_MULTIPLIER_MILLIS = 5 * 60 * 1000;
+
+const DEFAULT_MAX_RETRIES = 10;
+const DEFAULT_INITIAL_RETRY_DELAY_MILLIS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MILLIS = 60 * 1000;
+const RETRY_DELAY_JITTER = 0.3;
+
+/**
+ * The gRPC codes of commit errors which are worth trying again.
+ */
+const RETRYABLE_CODES = [
+  Status.ABORTED,
+  Status.DEADLINE_EXCEEDED,
+  Status.INTERNAL,
+  Status.RESOURCE_EXHAUSTED,
+  Status.UNAVAILABLE,
+];
+
+export interface BulkWriterThrottling {
+  initialOpsPerSecond?: number;
+  maxOpsPerSecond?: number;
+}
+
+export interface BulkWriterOptions {
+  throttling?: boolean | BulkWriterThrottling;
+  maxRetries?: number;
+  initialRetryDelayMillis?: number;
+  maxRetryDelayMillis?: number;
+  gaxOptions?: CallOptions;
+}
+
+interface BulkWriterOperation {
+  key: entity.Key;
+  mutation: google.datastore.v1.IMutation;
+  attempts: number;
+  resolve: (result: WriteResult) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * A token bucket which limits the number of operations sent per second. The
+ * capacity of the bucket grows by `multiplier` every `multiplierMillis`, up
+ * to `maximumCapacity`.
+ *
+ * @private
+ */
+export class RateLimiter {
+  private availableTokens: number;
+  private lastRefillTime: number;
+  private startTime: number;
+
+  constructor(
+    private initialCapacity: number,
+    private multiplier: number,
+    private multiplierMillis: number,
+    private maximumCapacity: number,
+    now = Date.now(),
+  ) {
+    this.availableTokens = initialCapacity;
+    this.lastRefillTime = now;
+    this.startTime = now;
+  }
+
+  /**
+   * Take the tokens for a request of `numOperations` operations, if they are
+   * available.
+   *
+   * @param {number} numOperations The number of operations in the request.
+   * @returns {boolean} Whether the request can be sent now.
+   */
+  tryMakeRequest(numOperations: number, now = Date.now()): boolean {
+    this.refillTokens(now);
+    const tokens = Math.min(numOperations, this.calculateCapacity(now));
+    if (tokens > this.availableTokens) {
+      return false;
+    }
+    this.availableTokens -= tokens;
+    return true;
+  }
+
+  /**
+   * Get the time until the tokens for a request of `numOperations` operations
+   * are available.
+   *
+   * @param {number} numOperations The number of operations in the request.
+   * @returns {number} The delay in milliseconds.
+   */
+  getNextRequestDelayMs(numOperations: number, now = Date.now()): number {
+    this.refillTokens(now);
+    const capacity = this.calculateCapacity(now);
+    const tokens = Math.min(numOperations, capacity);
+    if (tokens <= this.availableTokens) {
+      return 0;
+    }
+    return Math.ceil(((tokens - this.availableTokens) * 1000) / capacity);
+  }
+
+  /**
+   * Get the number of operations allowed per second at the given time.
+   *
+   * @returns {number}
+   */
+  calculateCapacity(now = Date.now()): number {
+    const rampUps = Math.floor((now - this.startTime) / this.multiplierMillis);
+    return Math.min(
+      Math.floor(this.initialCapacity * Math.pow(this.multiplier, rampUps)),
+      this.maximumCapacity,
+    );
+  }
+
+  private refillTokens(now: number) {
+    const capacity = this.calculateCapacity(now);
+    const elapsed = now - this.lastRefillTime;
+    const tokens = (elapsed * capacity) / 1000;
+    if (tokens > 0) {
+      this.availableTokens = Math.min(capacity, this.availableTokens + tokens);
+      this.lastRefillTime = now;
+    }
+  }
+}
+
+/**
+ * A BulkWriter writes a large number of entities without transactions. Each
+ * operation returns its own promise, which resolves with the
+ * {@link WriteResult} of the entity once it is written.
+ *
+ * Operations are grouped into commits of up to 500 mutations, which are sent
+ * as soon as they are full, or when {@link BulkWriter#flush} or
+ * {@link BulkWriter#close} is called. The rate of operations starts at 500
+ * per second and grows by 50% every 5 minutes. Commits which fail with a
+ * retryable error are tried again with an exponential backoff.
+ *
+ * Operations on the same entity are never sent in the same commit, but the
+ * order in which separate commits are applied is not guaranteed.
+ *
+ * Create a BulkWriter with {@link Datastore#bulkWriter}.
+ *
+ * @class
+ * @param {Datastore} datastore The parent Datastore instance.
+ * @param {object} [options] Configuration options. See
+ *     {@link Datastore#bulkWriter}.
+ */
+class BulkWriter {
+  datastore: Datastore;
+  private options: BulkWriterOptions;
+  private rateLimiter: RateLimiter;
+  private queue: BulkWriterOperation[] = [];
+  private unsettled = new Set<Promise<void>>();
+  private closed = false;
+
+  constructor(datastore: Datastore, options: BulkWriterOptions = {}) {
+    /**
+     * @name BulkWriter#datastore
+     * @type {Datastore}
+     */
+    this.datastore = datastore;
+    this.options = options;
+
+    const throttling =
+      typeof options.throttling === 'object' ? options.throttling : {};
+    if (options.throttling === false) {
+      this.rateLimiter = new RateLimiter(
+        Number.POSITIVE_INFINITY,
+        1,
+        RATE_LIMITER_MULTIPLIER_MILLIS,
+        Number.POSITIVE_INFINITY,
+      );
+    } else {
+      const initialOpsPerSecond =
+        throttling.initialOpsPerSecond || DEFAULT_INITIAL_OPS_PER_SECOND;
+      this.rateLimiter = new RateLimiter(
+        initialOpsPerSecond,
+        RATE_LIMITER_MULTIPLIER,
+        RATE_LIMITER_MULTIPLIER_MILLIS,
+        Math.max(
+          throttling.maxOpsPerSecond || DEFAULT_MAX_OPS_PER_SECOND,
+          initialOpsPerSecond,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Insert or replace an entity. An incomplete key is completed with the ID
+   * allocated for it.
+   *
+   * @param {object} entity The entity to write, as accepted by
+   *     {@link Datastore#save}.
+   * @returns {Promise<WriteResult>}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const writer = datastore.bulkWriter();
+   *
+   * for (const task of tasks) {
+   *   writer
+   *     .set({key: datastore.key(['Task', task.id]), data: task})
+   *     .catch(err => console.error(`Could not write ${task.id}`, err));
+   * }
+   * await writer.close();
+   * ```
+   */
+  set(entity: Entity): Promise<WriteResult> {
+    return this.enqueue(this.buildSaveMutation('upsert', entity));
+  }
+
+  /**
+   * Insert an entity, failing if it already exists. An incomplete key is
+   * completed with the ID allocated for it.
+   *
+   * @param {object} entity The entity to write, as accepted by
+   *     {@link Datastore#save}.
+   * @returns {Promise<WriteResult>}
+   */
+  insert(entity: Entity): Promise<WriteResult> {
+    return this.enqueue(this.buildSaveMutation('insert', entity));
+  }
+
+  /**
+   * Update an entity, failing if it does not exist.
+   *
+   * @param {object} entity The entity to write, as accepted by
+   *     {@link Datastore#save}.
+   * @returns {Promise<WriteResult>}
+   */
+  update(entity: Entity): Promise<WriteResult> {
+    return this.enqueue(this.buildSaveMutation('update', entity));
+  }
+
+  /**
+   * Delete an entity.
+   *
+   * @param {Key|object} keyOrEntry Datastore key object, or an object with a
+   *     `key` and an `ifVersion` or `ifUpdateTime` precondition.
+   * @returns {Promise<WriteResult>}
+   */
+  delete(keyOrEntry: entity.Key | DeleteEntry): Promise<WriteResult> {
+    this.throwIfClosed();
+    const deleteEntry = entity.isDsKey(keyOrEntry)
+      ? {key: keyOrEntry}
+      : keyOrEntry;
+    const mutation: google.datastore.v1.IMutation = {
+      delete: entity.keyToKeyProto(deleteEntry.key),
+    };
+    buildPreconditions(mutation, deleteEntry);
+    return this.enqueue({key: deleteEntry.key, mutation});
+  }
+
+  /**
+   * Send all operations queued so far, and wait until they are written or
+   * have failed.
+   *
+   * @returns {Promise<void>}
+   */
+  async flush(): Promise<void> {
+    const unsettled = Array.from(this.unsettled);
+    this.sendBatches(true);
+    await Promise.all(unsettled);
+  }
+
+  /**
+   * Send all queued operations and wait until they are written or have
+   * failed. No operations can be added afterwards.
+   *
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void> {
+    this.closed = true;
+    return this.flush();
+  }
+
+  private buildSaveMutation(
+    method: 'insert' | 'update' | 'upsert',
+    entityToSave: Entity,
+  ) {
+    this.throwIfClosed();
+    const mutation = buildSaveMutation(
+      DatastoreRequest.prepareEntityObject_(entityToSave),
+      method,
+    );
+
+    // The original key object is kept, so that an ID allocated for it can be
+    // assigned to it.
+    const key = entityToSave.key || entityToSave[entity.KEY_SYMBOL];
+    return {key, mutation};
+  }
+
+  private throwIfClosed() {
+    if (this.closed) {
+      throw new Error('The BulkWriter has already been closed.');
+    }
+  }
+
+  private enqueue(operation: {
+    key: entity.Key;
+    mutation: google.datastore.v1.IMutation;
+  }): Promise<WriteResult> {
+    const promise = new Promise<WriteResult>((resolve, reject) => {
+      this.queue.push(Object.assign(operation, {attempts: 0, resolve, reject}));
+    });
+
+    const settled = promise.then(
+      () => {},
+      () => {},
+    );
+    this.unsettled.add(settled);
+    void settled.then(() => this.unsettled.delete(settled));
+
+    this.sendBatches(false);
+    return promise;
+  }
+
+  /**
+   * Send the queued operations in batches. Unless `force` is set, the last
+   * batch is only sent if it is full.
+   */
+  private sendBatches(force: boolean) {
+    while (this.queue.length > 0) {
+      const keys = new Set<string>();
+      let size = 0;
+      while (size < this.queue.length && size < MAX_BATCH_SIZE) {
+        const key = this.queue[size].key;
+        if (entity.isKeyComplete(key)) {
+          const serializedKey = JSON.stringify(entity.keyToKeyProto(key));
+          if (keys.has(serializedKey)) {
+            break;
+          }
+          keys.add(serializedKey);
+        }
+        size++;
+      }
+
+      const isCut = size < this.queue.length || size === MAX_BATCH_SIZE;
+      if (!isCut && !force) {
+        return;
+      }
+      this.sendBatch(this.queue.splice(0, size));
+    }
+  }
+
+  private sendBatch(operations: BulkWriterOperation[]) {
+    if (!this.rateLimiter.tryMakeRequest(operations.length)) {
+      setTimeout(
+        () => this.sendBatch(operations),
+        this.rateLimiter.getNextRequestDelayMs(operations.length),
+      );
+      return;
+    }
+
+    this.datastore.request_(
+      {
+        client: 'DatastoreClient',
+        method: 'commit',
+        reqOpts: {mutations: operations.map(operation => operation.mutation)},
+        gaxOpts: this.options.gaxOptions,
+      },
+      (err, resp) => {
+        if (err) {
+          this.retryBatch(operations, err);
+          return;
+        }
+        this.settleBatch(operations, resp);
+      },
+    );
+  }
+
+  private retryBatch(
+    operations: BulkWriterOperation[],
+    err: Error & Partial<ServiceError>,
+  ) {
+    const maxRetries =
+      this.options.maxRetries === undefined
+        ? DEFAULT_MAX_RETRIES
+        : this.options.maxRetries;
+    const isRetryable =
+      err.code !== undefined && RETRYABLE_CODES.includes(err.code);
+
+    const retries = operations.filter(operation => {
+      operation.attempts++;
+      if (isRetryable && operation.attempts <= maxRetries) {
+        return true;
+      }
+      operation.reject(err);
+      return false;
+    });
+
+    if (retries.length > 0) {
+      setTimeout(
+        () => this.sendBatch(retries),
+        this.getRetryDelay(retries[0].attempts),
+      );
+    }
+  }
+
+  private getRetryDelay(attempts: number) {
+    const initialDelay =
+      this.options.initialRetryDelayMillis === undefined
+        ? DEFAULT_INITIAL_RETRY_DELAY_MILLIS
+        : this.options.initialRetryDelayMillis;
+    const maxDelay =
+      this.options.maxRetryDelayMillis === undefined
+        ? DEFAULT_MAX_RETRY_DELAY_MILLIS
+        : this.options.maxRetryDelayMillis;
+    const delay = Math.min(initialDelay * Math.pow(2, attempts - 1), maxDelay);
+    const jitter = delay * RETRY_DELAY_JITTER * (Math.random() * 2 - 1);
+    return Math.max(0, delay + jitter);
+  }
+
+  private settleBatch(
+    operations: BulkWriterOperation[],
+    resp: CommitApiResponse,
+  ) {
+    const mutationResults = resp.mutationResults || [];
+
+    operations.forEach((operation, index) => {
+      const result = mutationResults[index];
+      if (result && result.key && !entity.isKeyComplete(operation.key)) {
+        operation.key.id = entity.keyFromKeyProto(result.key).id;
+      }
+    });
+
+    buildWriteResults(
+      resp,
+      operations.map(operation => operation.key),
+    );
+
+    operations.forEach((operation, index) => {
+      const result = mutationResults[index];
+      if (result && result.conflictDetected) {
+        operation.reject(new ConflictError([operation.key]));
+        return;
+      }
+      operation.resolve(resp.writeResults![index] || {key: operation.key});
+    });
+  }
+}
+
+export {BulkWriter};
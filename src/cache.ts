@@ -0,0 +1,282 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Datastore} from '.';
+import {ResponseResult, entity} from './entity';
+import {CreateReadStreamOptions, DatastoreRequest} from './request';
+import {getKeyString} from './utils/entity/getKeyString';
+
+/**
+ * The default number of entities kept by an {@link LruCache}.
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * The keys of each cache which are being looked up, with the number of
+ * lookups of the key and the number of times the key was invalidated since
+ * the first of them started.
+ */
+const pendingReads = new WeakMap<
+  EntityCache,
+  Map<string, {readers: number; generation: number}>
+>();
+
+/**
+ * A lookup of keys whose results are written to a cache, started by
+ * {@link startCacheRead}.
+ *
+ * @private
+ */
+export interface CacheRead {
+  cache: EntityCache;
+  generations: Map<string, number>;
+}
+
+/**
+ * An entity as it is kept in a cache: the entity result returned by a lookup,
+ * with the entity proto and its version and timestamps.
+ *
+ * @typedef {object} CachedEntity
+ */
+export type CachedEntity = ResponseResult;
+
+/**
+ * The interface of the stores an {@link EntityCache} can be backed by. Each
+ * method may return a promise, e.g. to use a remote store. A cache which
+ * fails is ignored: a read falls back to a lookup, and a write still
+ * succeeds.
+ *
+ * @typedef {object} EntityCache
+ * @property {function} get Get the entity cached for a key, or `undefined`.
+ * @property {function} set Cache the entity of a key.
+ * @property {function} delete Remove the entity of a key from the cache.
+ */
+export interface EntityCache {
+  get(
+    key: string,
+  ): CachedEntity | undefined | Promise<CachedEntity | undefined>;
+  set(key: string, value: CachedEntity): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export interface LruCacheOptions {
+  maxEntries?: number;
+}
+
+/**
+ * An in-memory cache keeping the entities which were read most recently.
+ * This is the cache used when the `cache` option of the client is `true`.
+ *
+ * @class
+ * @param {object} [options] Configuration object.
+ * @param {number} [options.maxEntries=1000] The most entities to keep.
+ *
+ * @example
+ * ```
+ * const {Datastore, LruCache} = require('@google-cloud/datastore');
+ * const datastore = new Datastore({
+ *   cache: new LruCache({maxEntries: 10000}),
+ * });
+ * ```
+ */
+export class LruCache implements EntityCache {
+  private maxEntries: number;
+  // A Map iterates in insertion order, so its first entry is the least
+  // recently used one.
+  private entries = new Map<string, CachedEntity>();
+
+  constructor(options: LruCacheOptions = {}) {
+    this.maxEntries = options.maxEntries || DEFAULT_MAX_ENTRIES;
+  }
+
+  get(key: string): CachedEntity | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: CachedEntity) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Get the cache a read can use. Reads in a transaction or at a read time, and
+ * reads asking for strong consistency or only some properties, bypass the
+ * cache.
+ *
+ * @private
+ */
+export function getReadCache(
+  request: DatastoreRequest,
+  options: CreateReadStreamOptions,
+): EntityCache | undefined {
+  const datastore = request.datastore;
+  if (
+    !datastore ||
+    !datastore.cache_ ||
+    request !== datastore ||
+    options.readTime ||
+    options.consistency === 'strong' ||
+    options.propertyMask
+  ) {
+    return undefined;
+  }
+  return datastore.cache_;
+}
+
+/**
+ * Get the key an entity is cached under. It includes the project and the
+ * database, as the clients of {@link Datastore#database} share the cache.
+ *
+ * @private
+ */
+export function getCacheKey(datastore: Datastore, key: entity.Key): string {
+  return JSON.stringify([
+    datastore.options.projectId || '',
+    datastore.options.databaseId || '',
+    getKeyString(key),
+  ]);
+}
+
+/**
+ * Get the cached entities of keys. Nothing is cached for a key if the cache
+ * fails.
+ *
+ * @private
+ */
+export function readFromCache(
+  cache: EntityCache,
+  cacheKeys: string[],
+): Promise<Array<CachedEntity | undefined>> {
+  return Promise.all(
+    cacheKeys.map(cacheKey =>
+      Promise.resolve()
+        .then(() => cache.get(cacheKey))
+        .catch(() => undefined),
+    ),
+  );
+}
+
+/**
+ * Record the start of a lookup whose results are written to the cache, so
+ * that the results of keys written in the meantime are not.
+ *
+ * @private
+ */
+export function startCacheRead(
+  cache: EntityCache,
+  cacheKeys: string[],
+): CacheRead {
+  let pending = pendingReads.get(cache);
+  if (!pending) {
+    pending = new Map();
+    pendingReads.set(cache, pending);
+  }
+  const generations = new Map<string, number>();
+  cacheKeys.forEach(cacheKey => {
+    let read = pending!.get(cacheKey);
+    if (!read) {
+      read = {readers: 0, generation: 0};
+      pending!.set(cacheKey, read);
+    }
+    read.readers++;
+    generations.set(cacheKey, read.generation);
+  });
+  return {cache, generations};
+}
+
+/**
+ * Record the end of a lookup started by {@link startCacheRead}.
+ *
+ * @private
+ */
+export function endCacheRead(read: CacheRead) {
+  const pending = pendingReads.get(read.cache)!;
+  read.generations.forEach((generation, cacheKey) => {
+    const pendingRead = pending.get(cacheKey)!;
+    if (--pendingRead.readers === 0) {
+      pending.delete(cacheKey);
+    }
+  });
+}
+
+/**
+ * Cache the entities returned by a lookup, except the ones whose keys were
+ * invalidated since the lookup started: the lookup may have read them before
+ * they were written.
+ *
+ * @private
+ */
+export function writeToCache(
+  datastore: Datastore,
+  read: CacheRead,
+  results: CachedEntity[],
+) {
+  const pending = pendingReads.get(read.cache)!;
+  results.forEach(result => {
+    const cacheKey = getCacheKey(
+      datastore,
+      entity.keyFromKeyProto(result.entity.key!),
+    );
+    const pendingRead = pending.get(cacheKey);
+    if (
+      !pendingRead ||
+      pendingRead.generation !== read.generations.get(cacheKey)
+    ) {
+      return;
+    }
+    Promise.resolve()
+      .then(() => read.cache.set(cacheKey, result))
+      .catch(() => {});
+  });
+}
+
+/**
+ * Remove the entities of keys from the cache, once they are written.
+ *
+ * @private
+ */
+export function invalidateCache(
+  datastore: Datastore,
+  keys: entity.Key[],
+): Promise<void> {
+  const cache = datastore.cache_!;
+  const pending = pendingReads.get(cache);
+  return Promise.all(
+    keys
+      .filter(key => entity.isKeyComplete(key))
+      .map(key => {
+        const cacheKey = getCacheKey(datastore, key);
+        const pendingRead = pending && pending.get(cacheKey);
+        if (pendingRead) {
+          pendingRead.generation++;
+        }
+        return Promise.resolve()
+          .then(() => cache.delete(cacheKey))
+          .catch(() => {});
+      }),
+  ).then(() => {});
+}
@@ -0,0 +1,128 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {entity} from './entity';
+import {ChunkError} from './errors';
+
+/**
+ * The most keys Datastore accepts in a single lookup.
+ */
+export const MAX_LOOKUP_KEYS = 1000;
+
+/**
+ * The most mutations Datastore accepts in a single commit.
+ */
+export const MAX_COMMIT_MUTATIONS = 500;
+
+/**
+ * The most chunks of a single call sent at the same time.
+ */
+export const MAX_CONCURRENT_CHUNKS = 5;
+
+/**
+ * Split items into chunks of at most `size` items.
+ *
+ * @private
+ */
+export function splitIntoChunks<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Send a request for each chunk, with at most {@link MAX_CONCURRENT_CHUNKS}
+ * of them at a time. It resolves with the results of the chunks, in the order
+ * of the chunks. Once a chunk fails, no other chunk is sent, and it rejects
+ * with a {@link ChunkError} when the chunks already sent are done.
+ *
+ * @private
+ *
+ * @param {array[]} chunks The chunks.
+ * @param {function} getKeys Get the keys of a chunk, to report them.
+ * @param {function} send Send the request of a chunk.
+ * @returns {Promise<array>}
+ */
+export function runChunks<T, R>(
+  chunks: T[][],
+  getKeys: (chunk: T[]) => entity.Key[],
+  send: (chunk: T[]) => Promise<R>,
+): Promise<R[]> {
+  return new Promise((resolve, reject) => {
+    const results: R[] = [];
+    const succeeded: boolean[] = [];
+    let failure: {index: number; err: Error} | undefined;
+    let nextIndex = 0;
+    let running = 0;
+
+    if (chunks.length === 0) {
+      resolve(results);
+      return;
+    }
+
+    const settle = () => {
+      if (running > 0) {
+        return;
+      }
+      if (!failure) {
+        resolve(results);
+        return;
+      }
+      const completedKeys: entity.Key[] = [];
+      chunks.forEach((chunk, index) => {
+        if (succeeded[index]) {
+          completedKeys.push(...getKeys(chunk));
+        }
+      });
+      reject(
+        new ChunkError(failure.err, {
+          chunkIndex: failure.index,
+          chunkCount: chunks.length,
+          keys: getKeys(chunks[failure.index]),
+          completedKeys,
+        }),
+      );
+    };
+
+    const sendNext = () => {
+      if (failure || nextIndex === chunks.length) {
+        settle();
+        return;
+      }
+      const index = nextIndex++;
+      running++;
+      send(chunks[index]).then(
+        result => {
+          running--;
+          results[index] = result;
+          succeeded[index] = true;
+          sendNext();
+        },
+        err => {
+          running--;
+          if (!failure || index < failure.index) {
+            failure = {index, err};
+          }
+          sendNext();
+        },
+      );
+    };
+
+    for (let i = 0; i < Math.min(MAX_CONCURRENT_CHUNKS, chunks.length); i++) {
+      sendNext();
+    }
+  });
+}
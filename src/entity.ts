@@ -22,6 +22,7 @@ import * as Protobuf from 'protobufjs';
 import * as path from 'path';
 import {google} from '../protos/protos';
 import {and, PropertyFilter} from './filter';
+import {isPropertyTransform} from './transform';
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
 export namespace entity {
@@ -48,6 +49,66 @@ export namespace entity {
    */
   export const KEY_SYMBOL: unique symbol = Symbol('KEY');
 
+  /**
+   * A symbol to access the version of an entity object, as read from
+   * Datastore.
+   *
+   * @type {symbol}
+   * @private
+   */
+  export const VERSION_SYMBOL: unique symbol = Symbol('VERSION');
+
+  /**
+   * A time read from Datastore, e.g. the update time of an entity. Unlike a
+   * `Date`, it keeps the microseconds of the time, so it can be passed back
+   * as the `ifUpdateTime` precondition of a write, which has to match the
+   * stored time exactly.
+   *
+   * @typedef {object} Timestamp
+   * @property {number} seconds The seconds since the Unix epoch.
+   * @property {number} nanos The nanoseconds of the second.
+   */
+  export interface Timestamp {
+    seconds: number;
+    nanos: number;
+  }
+
+  /**
+   * Convert a timestamp proto of a response, whose seconds are a string, to a
+   * {@link Timestamp}.
+   *
+   * @private
+   *
+   * @param {object} proto The timestamp proto.
+   * @returns {Timestamp}
+   */
+  export function timestampFromProto(
+    proto: google.protobuf.ITimestamp,
+  ): Timestamp {
+    return {
+      seconds: Number(proto.seconds || 0),
+      nanos: proto.nanos || 0,
+    };
+  }
+
+  /**
+   * A symbol to access the time an entity object was created, as read from
+   * Datastore.
+   *
+   * @type {symbol}
+   * @private
+   */
+  export const CREATE_TIME_SYMBOL: unique symbol = Symbol('CREATE_TIME');
+
+  /**
+   * A symbol to access the time an entity object was last updated, as read
+   * from Datastore.
+   *
+   * @type {symbol}
+   * @private
+   */
+  export const UPDATE_TIME_SYMBOL: unique symbol = Symbol('UPDATE_TIME');
+
   /**
    * Build a Datastore Double object. For long doubles, a string can be
    * provided.
@@ -280,6 +341,59 @@ export namespace entity {
     return value instanceof entity.GeoPoint;
   }
 
+  /**
+   * The `meaning` Datastore assigns to an array of doubles holding a vector
+   * embedding.
+   *
+   * @private
+   */
+  export const VECTOR_MEANING = 31;
+
+  /**
+   * Build a Datastore Vector object, an embedding which can be searched with
+   * {@link Query#findNearest}.
+   *
+   * @class
+   * @param {number[]} value The vector's components.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const embedding = datastore.vector([0.12, 0.4, -0.73]);
+   * ```
+   */
+  export class Vector {
+    value: number[];
+    constructor(value: number[]) {
+      /**
+       * @name Vector#value
+       * @type {number[]}
+       */
+      this.value = value.slice();
+    }
+
+    /**
+     * Get the vector's components as an array of numbers.
+     *
+     * @returns {number[]}
+     */
+    toArray() {
+      return this.value.slice();
+    }
+  }
+
+  /**
+   * Check if something is a Datastore Vector object.
+   *
+   * @private
+   * @param {*} value The value to check if it is a vector.
+   * @returns {boolean}
+   */
+  export function isDsVector(value?: {}): value is entity.Vector {
+    return value instanceof entity.Vector;
+  }
+
   export interface KeyOptions {
     namespace?: string;
     path: PathType[];
@@ -534,6 +648,12 @@ export namespace entity {
 
     switch (valueType) {
       case 'arrayValue': {
+        if (valueProto.meaning === VECTOR_MEANING) {
+          return new entity.Vector(
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (value.values || []).map((val: any) => Number(val.doubleValue)),
+          );
+        }
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         return value.values.map((val: any) =>
           entity.decodeValueProto(val, wrapNumbers),
@@ -641,6 +761,15 @@ export namespace entity {
       return valueProto;
     }
 
+    if (isDsVector(value)) {
+      valueProto.arrayValue = {
+        values: value.value.map(val => ({doubleValue: val})),
+      };
+      valueProto.meaning = VECTOR_MEANING;
+      valueProto.excludeFromIndexes = true;
+      return valueProto;
+    }
+
     if (value instanceof Date) {
       const seconds = value.getTime() / 1000;
 
@@ -674,6 +803,12 @@ export namespace entity {
       return valueProto;
     }
 
+    if (isPropertyTransform(value)) {
+      throw new Error(
+        `The transform for "${property}" can only be used as a property of a saved entity.`,
+      );
+    }
+
     if (is.object(value)) {
       if (!is.empty(value)) {
         value = extend(true, {}, value);
@@ -982,6 +1117,19 @@ export namespace entity {
     return results.map(result => {
       const ent = entity.entityFromEntityProto(result.entity!, wrapNumbers);
       ent[entity.KEY_SYMBOL] = entity.keyFromKeyProto(result.entity!.key!);
+      if (result.version !== undefined && result.version !== null) {
+        ent[entity.VERSION_SYMBOL] = result.version;
+      }
+      if (result.createTime) {
+        ent[entity.CREATE_TIME_SYMBOL] = entity.timestampFromProto(
+          result.createTime,
+        );
+      }
+      if (result.updateTime) {
+        ent[entity.UPDATE_TIME_SYMBOL] = entity.timestampFromProto(
+          result.updateTime,
+        );
+      }
       return ent;
     });
   }
@@ -1255,6 +1403,36 @@ export namespace entity {
       queryProto.startCursor = query.startVal;
     }
 
+    if (query.findNearestVal) {
+      const findNearest = query.findNearestVal;
+      const queryVector = isDsVector(findNearest.queryVector)
+        ? findNearest.queryVector
+        : new entity.Vector(findNearest.queryVector);
+      const findNearestProto: {[key: string]: {}} = {
+        vectorProperty: {
+          name: findNearest.vectorProperty,
+        },
+        queryVector: entity.encodeValue(
+          queryVector,
+          findNearest.vectorProperty,
+        ),
+        distanceMeasure: findNearest.distanceMeasure,
+        limit: {
+          value: findNearest.limit,
+        },
+      };
+      if (findNearest.distanceResultProperty) {
+        findNearestProto.distanceResultProperty =
+          findNearest.distanceResultProperty;
+      }
+      if (typeof findNearest.distanceThreshold === 'number') {
+        findNearestProto.distanceThreshold = {
+          value: findNearest.distanceThreshold,
+        };
+      }
+      queryProto.findNearest = findNearestProto;
+    }
+
     // Check to see if there is at least one type of legacy filter or new filter.
     if (query.filters.length > 0 || query.entityFilters.length > 0) {
       // Convert all legacy filters into new property filter objects
@@ -1469,6 +1647,9 @@ export interface KeyProto {
 
 export interface ResponseResult {
   entity: EntityProto;
+  version?: number | string | null;
+  createTime?: google.protobuf.ITimestamp | null;
+  updateTime?: google.protobuf.ITimestamp | null;
 }
 
 export interface EntityObject {
@@ -0,0 +1,442 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Status} from 'google-gax';
+import {google} from '../protos/protos';
+import {AggregateQuery} from './aggregate';
+import {entity} from './entity';
+import {GqlQuery} from './gql-query';
+import {Query} from './query';
+
+export interface DatastoreErrorOptions {
+  keys?: entity.Key[];
+  query?: Query | GqlQuery | AggregateQuery;
+  cause?: Error;
+}
+
+/**
+ * The base class of the errors of this library. An error returned by the API
+ * keeps its gRPC status code, details and metadata.
+ *
+ * @class
+ * @param {string} message The error message.
+ * @param {object} [options] Configuration object.
+ * @param {Key[]} [options.keys] The keys of the entities the request read or
+ *     wrote.
+ * @param {Query|GqlQuery|AggregateQuery} [options.query] The query the
+ *     request ran.
+ * @param {Error} [options.cause] The error returned by the API.
+ */
+export class DatastoreError extends Error {
+  code?: number;
+  details?: string;
+  metadata?: unknown;
+  keys: entity.Key[];
+  query?: Query | GqlQuery | AggregateQuery;
+  cause?: Error;
+
+  constructor(message: string, options: DatastoreErrorOptions = {}) {
+    super(message);
+    this.name = 'DatastoreError';
+    const cause = options.cause as ServiceErrorLike | undefined;
+    /**
+     * The gRPC status code of the error returned by the API.
+     *
+     * @name DatastoreError#code
+     * @type {number|undefined}
+     */
+    this.code = cause && cause.code;
+    /**
+     * @name DatastoreError#details
+     * @type {string|undefined}
+     */
+    this.details = cause && cause.details;
+    /**
+     * @name DatastoreError#metadata
+     * @type {object|undefined}
+     */
+    this.metadata = cause && cause.metadata;
+    /**
+     * The keys of the entities the request read or wrote.
+     *
+     * @name DatastoreError#keys
+     * @type {Key[]}
+     */
+    this.keys = options.keys || [];
+    /**
+     * The query the request ran.
+     *
+     * @name DatastoreError#query
+     * @type {Query|GqlQuery|AggregateQuery|undefined}
+     */
+    this.query = options.query;
+    /**
+     * The error returned by the API.
+     *
+     * @name DatastoreError#cause
+     * @type {Error|undefined}
+     */
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The error returned when an entity, or the database, doesn't exist, e.g.
+ * when updating an entity which was never saved.
+ *
+ * @class
+ * @extends DatastoreError
+ */
+export class NotFoundError extends DatastoreError {
+  constructor(message: string, options?: DatastoreErrorOptions) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The error returned when inserting an entity whose key is already used.
+ *
+ * @class
+ * @extends DatastoreError
+ *
+ * @example
+ * ```
+ * const {Datastore, AlreadyExistsError} = require('@google-cloud/datastore');
+ * const datastore = new Datastore();
+ *
+ * try {
+ *   await datastore.insert({key: datastore.key(['Task', 'sampleTask']), data});
+ * } catch (err) {
+ *   if (err instanceof AlreadyExistsError) {
+ *     // The task was created already.
+ *   }
+ * }
+ * ```
+ */
+export class AlreadyExistsError extends DatastoreError {
+  constructor(message: string, options?: DatastoreErrorOptions) {
+    super(message, options);
+    this.name = 'AlreadyExistsError';
+  }
+}
+
+/**
+ * The error returned when a transaction is aborted because it contended with
+ * another one for the same entities. Running it again may succeed, which
+ * {@link Datastore#runTransaction} does on its own.
+ *
+ * Also exported as `AbortedError`.
+ *
+ * @class
+ * @extends DatastoreError
+ */
+export class ContentionError extends DatastoreError {
+  constructor(message: string, options?: DatastoreErrorOptions) {
+    super(message, options);
+    this.name = 'ContentionError';
+  }
+}
+
+export {ContentionError as AbortedError};
+
+/**
+ * The error returned when the precondition of a request doesn't hold, other
+ * than a missing index.
+ *
+ * @class
+ * @extends DatastoreError
+ */
+export class PreconditionFailedError extends DatastoreError {
+  constructor(message: string, options?: DatastoreErrorOptions) {
+    super(message, options);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * The error returned when a query needs a composite index which the database
+ * doesn't have. The index the API recommends is parsed from the message.
+ *
+ * @class
+ * @extends PreconditionFailedError
+ *
+ * @example
+ * ```
+ * const {Datastore, MissingIndexError} = require('@google-cloud/datastore');
+ * const datastore = new Datastore();
+ *
+ * try {
+ *   await datastore.runQuery(query);
+ * } catch (err) {
+ *   if (err instanceof MissingIndexError) {
+ *     // {kind: 'Task', ancestor: 'NONE', properties: [...]}
+ *     console.log(err.suggestedIndex);
+ *   }
+ * }
+ * ```
+ */
+export class MissingIndexError extends PreconditionFailedError {
+  suggestedIndex?: google.datastore.admin.v1.IIndex;
+
+  constructor(message: string, options?: DatastoreErrorOptions) {
+    super(message, options);
+    this.name = 'MissingIndexError';
+    /**
+     * The index recommended by the API, if the message has one.
+     *
+     * @name MissingIndexError#suggestedIndex
+     * @type {object|undefined}
+     */
+    this.suggestedIndex = parseSuggestedIndex(message);
+  }
+}
+
+/**
+ * The error returned when using a transaction which has already been
+ * committed or rolled back, or which the API no longer knows.
+ *
+ * @class
+ * @extends DatastoreError
+ */
+export class TransactionExpiredError extends DatastoreError {
+  constructor(message: string, options?: DatastoreErrorOptions) {
+    super(message, options);
+    this.name = 'TransactionExpiredError';
+  }
+}
+
+/**
+ * The error returned when the `ifVersion` or `ifUpdateTime` precondition of a
+ * save or delete no longer matches the stored entity. The conflicting
+ * mutations were not applied; the others in the same commit were.
+ *
+ * @class
+ * @extends DatastoreError
+ * @param {Key[]} keys The keys of the entities which had a conflict.
+ *
+ * @example
+ * ```
+ * const {Datastore, ConflictError} = require('@google-cloud/datastore');
+ * const datastore = new Datastore();
+ *
+ * const [task] = await datastore.get(datastore.key(['Task', 'sampleTask']));
+ * task.done = true;
+ *
+ * try {
+ *   await datastore.save({
+ *     key: task[Datastore.KEY],
+ *     data: task,
+ *     ifVersion: task[Datastore.VERSION],
+ *   });
+ * } catch (err) {
+ *   if (err instanceof ConflictError) {
+ *     // Someone else changed the task, read it again and retry.
+ *   }
+ * }
+ * ```
+ */
+export class ConflictError extends DatastoreError {
+  key: entity.Key;
+
+  constructor(keys: entity.Key[]) {
+    super(
+      'A conflict was detected for ' +
+        keys.map(key => `"${key.path.join('/')}"`).join(', ') +
+        '. The stored entity no longer matches the expected version.',
+    );
+    this.name = 'ConflictError';
+    /**
+     * The key of the first entity which had a conflict.
+     *
+     * @name ConflictError#key
+     * @type {Key}
+     */
+    this.key = keys[0];
+    /**
+     * The keys of all entities which had a conflict.
+     *
+     * @name ConflictError#keys
+     * @type {Key[]}
+     */
+    this.keys = keys;
+  }
+}
+
+export interface ChunkErrorOptions {
+  chunkIndex: number;
+  chunkCount: number;
+  keys: entity.Key[];
+  completedKeys: entity.Key[];
+}
+
+/**
+ * The error returned when a get, save or delete of more keys than a single
+ * RPC accepts is split into chunks, and one of the chunks fails. The chunks
+ * which were already sent are not undone: the entities of `completedKeys`
+ * were looked up or written.
+ *
+ * @class
+ * @extends DatastoreError
+ * @param {Error} cause The error of the chunk.
+ * @param {object} options The chunk.
+ * @param {number} options.chunkIndex The index of the chunk.
+ * @param {number} options.chunkCount The number of chunks.
+ * @param {Key[]} options.keys The keys of the chunk.
+ * @param {Key[]} options.completedKeys The keys of the chunks which
+ *     succeeded.
+ *
+ * @example
+ * ```
+ * const {Datastore, ChunkError} = require('@google-cloud/datastore');
+ * const datastore = new Datastore();
+ *
+ * try {
+ *   await datastore.save(entities);
+ * } catch (err) {
+ *   if (err instanceof ChunkError) {
+ *     // Save the entities which weren't written again.
+ *     console.log(err.completedKeys);
+ *   }
+ * }
+ * ```
+ */
+export class ChunkError extends DatastoreError {
+  chunkIndex: number;
+  chunkCount: number;
+  completedKeys: entity.Key[];
+
+  constructor(cause: Error, options: ChunkErrorOptions) {
+    super(
+      `Chunk ${options.chunkIndex + 1} of ${options.chunkCount} failed, ` +
+        `while the chunks of ${options.completedKeys.length} keys ` +
+        `succeeded: ${cause.message}`,
+      {cause, keys: options.keys},
+    );
+    this.name = 'ChunkError';
+    /**
+     * The index of the chunk which failed, starting at 0.
+     *
+     * @name ChunkError#chunkIndex
+     * @type {number}
+     */
+    this.chunkIndex = options.chunkIndex;
+    /**
+     * @name ChunkError#chunkCount
+     * @type {number}
+     */
+    this.chunkCount = options.chunkCount;
+    /**
+     * The keys of the chunks which succeeded, in the order they were given.
+     * The keys of the entities inserted by these chunks are completed with
+     * the IDs allocated for them.
+     *
+     * @name ChunkError#completedKeys
+     * @type {Key[]}
+     */
+    this.completedKeys = options.completedKeys;
+  }
+}
+
+interface ServiceErrorLike extends Error {
+  code?: number;
+  details?: string;
+  metadata?: unknown;
+}
+
+/**
+ * Convert an error returned by the API to the error class matching its
+ * status. Other errors are returned as they are.
+ *
+ * @private
+ *
+ * @param {Error} err The error returned by the API.
+ * @param {object} [options] The keys or query of the request.
+ * @returns {Error}
+ */
+export function toDatastoreError(
+  err: Error,
+  options: Omit<DatastoreErrorOptions, 'cause'> = {},
+): Error {
+  if (err instanceof DatastoreError) {
+    return err;
+  }
+  const errorOptions = Object.assign({cause: err}, options);
+  const message = err.message;
+  switch ((err as ServiceErrorLike).code) {
+    case Status.NOT_FOUND:
+      return new NotFoundError(message, errorOptions);
+    case Status.ALREADY_EXISTS:
+      return new AlreadyExistsError(message, errorOptions);
+    case Status.ABORTED:
+      return new ContentionError(message, errorOptions);
+    case Status.FAILED_PRECONDITION:
+      return /no matching index found/i.test(message)
+        ? new MissingIndexError(message, errorOptions)
+        : new PreconditionFailedError(message, errorOptions);
+    case Status.INVALID_ARGUMENT:
+      return /transaction.*(expired|no longer valid)/i.test(message)
+        ? new TransactionExpiredError(message, errorOptions)
+        : err;
+    default:
+      return err;
+  }
+}
+
+/**
+ * Parse the index recommended in the message of a missing index error, e.g.
+ *
+ * ```
+ * no matching index found. recommended index is:
+ * - kind: Task
+ *   ancestor: yes
+ *   properties:
+ *   - name: done
+ *   - name: priority
+ *     direction: desc
+ * ```
+ *
+ * @private
+ */
+function parseSuggestedIndex(
+  message: string,
+): google.datastore.admin.v1.IIndex | undefined {
+  const start = message.indexOf('recommended index is:');
+  if (start === -1) {
+    return undefined;
+  }
+  const index: google.datastore.admin.v1.IIndex = {
+    ancestor: 'NONE',
+    properties: [],
+  };
+  const properties = index.properties!;
+  for (const line of message.slice(start).split('\n')) {
+    const match = line.trim().match(/^(?:- )?(\w+):\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, field, value] = match;
+    if (field === 'kind') {
+      index.kind = value;
+    } else if (field === 'ancestor') {
+      index.ancestor = value === 'yes' ? 'ALL_ANCESTORS' : 'NONE';
+    } else if (field === 'name') {
+      properties.push({name: value, direction: 'ASCENDING'});
+    } else if (field === 'direction' && properties.length > 0) {
+      properties[properties.length - 1].direction =
+        value === 'desc' ? 'DESCENDING' : 'ASCENDING';
+    }
+  }
+  return index.kind ? index : undefined;
+}
@@ -0,0 +1,234 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Datastore} from '.';
+import {Entity, entity} from './entity';
+import {RunQueryCallback, RunQueryOptions, RunQueryResponse} from './query';
+import {RunQueryStreamOptions} from './request';
+import {Transaction} from './transaction';
+import {google} from '../protos/protos';
+
+/**
+ * A query cursor to bind to a GQL query, e.g. the `endCursor` returned from a
+ * previous query.
+ *
+ * @class
+ * @param {string|Buffer} value The cursor value.
+ *
+ * @example
+ * ```
+ * const {Datastore} = require('@google-cloud/datastore');
+ * const datastore = new Datastore();
+ * const cursor = datastore.cursor(info.endCursor);
+ * ```
+ */
+export class Cursor {
+  value: string | Buffer;
+  constructor(value: string | Buffer) {
+    /**
+     * @name Cursor#value
+     * @type {string|Buffer}
+     */
+    this.value = value;
+  }
+}
+
+/**
+ * A GqlQuery object is used to run a query written in GQL, the SQL-like query
+ * language of Datastore.
+ *
+ * Create a GqlQuery object with {@link Datastore#createGqlQuery} or
+ * {@link Transaction#createGqlQuery}, then run it with
+ * {@link Datastore#runQuery}, {@link Datastore#runQueryStream} or, for
+ * aggregations like `COUNT(*)`, {@link Datastore#runAggregationQuery}.
+ *
+ * @see {@link https://cloud.google.com/datastore/docs/reference/gql_reference| GQL Reference}
+ *
+ * @class
+ * @param {Datastore|Transaction} scope The parent scope the query was created
+ *     from.
+ * @param {?string} namespace Namespace to query entities from.
+ * @param {string} queryString The GQL query string.
+ * @param {object} [options] Configuration object.
+ * @param {object} [options.namedBindings] Values for the `@name` binding sites
+ *     in the query string.
+ * @param {array} [options.positionalBindings] Values for the `@1`, `@2`, ...
+ *     binding sites in the query string.
+ * @param {boolean} [options.allowLiterals=true] Whether the query string may
+ *     contain literal values.
+ *
+ * @example
+ * ```
+ * const {Datastore} = require('@google-cloud/datastore');
+ * const datastore = new Datastore();
+ * const query = datastore.createGqlQuery(
+ *   'SELECT * FROM Task WHERE done = @done AND priority >= @1',
+ *   {namedBindings: {done: false}, positionalBindings: [4]}
+ * );
+ * ```
+ */
+class GqlQuery {
+  scope?: Datastore | Transaction;
+  namespace?: string | null;
+  queryString: string;
+  allowLiterals: boolean;
+  namedBindings: {[name: string]: Entity};
+  positionalBindings: Entity[];
+
+  constructor(
+    scope: Datastore | Transaction | undefined,
+    namespace: string | null | undefined,
+    queryString: string,
+    options: GqlQueryOptions = {},
+  ) {
+    /**
+     * @name GqlQuery#scope
+     * @type {Datastore|Transaction}
+     */
+    this.scope = scope;
+    /**
+     * @name GqlQuery#namespace
+     * @type {?string}
+     */
+    this.namespace = namespace || null;
+    /**
+     * @name GqlQuery#queryString
+     * @type {string}
+     */
+    this.queryString = queryString;
+    /**
+     * @name GqlQuery#allowLiterals
+     * @type {boolean}
+     */
+    this.allowLiterals = options.allowLiterals !== false;
+    /**
+     * @name GqlQuery#namedBindings
+     * @type {object}
+     */
+    this.namedBindings = Object.assign({}, options.namedBindings);
+    /**
+     * @name GqlQuery#positionalBindings
+     * @type {array}
+     */
+    this.positionalBindings = (options.positionalBindings || []).slice();
+  }
+
+  /**
+   * Run the query.
+   *
+   * @param {object} [options] Optional configuration. See
+   *     {@link Query#run} for a complete list of options.
+   * @param {function} [callback] The callback function. If omitted, a promise
+   *     is returned.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const query = datastore.createGqlQuery('SELECT * FROM Company');
+   *
+   * query.run((err, entities, info) => {});
+   * ```
+   */
+  run(options?: RunQueryOptions): Promise<RunQueryResponse>;
+  run(options: RunQueryOptions, callback: RunQueryCallback): void;
+  run(callback: RunQueryCallback): void;
+  run(
+    optionsOrCallback?: RunQueryOptions | RunQueryCallback,
+    cb?: RunQueryCallback,
+  ): void | Promise<RunQueryResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    const callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : cb!;
+    const runQuery = this.scope!.runQuery.bind(this.scope);
+    return runQuery(this, options, callback);
+  }
+
+  /**
+   * Run the query as a readable object stream.
+   *
+   * @param {object} [options] Optional configuration. See
+   *     {@link Query#run} for a complete list of options.
+   * @returns {stream}
+   */
+  runStream(options?: RunQueryStreamOptions) {
+    return this.scope!.runQueryStream(this, options);
+  }
+
+  /**
+   * Get the proto for the query, encoding every binding with
+   * {@link entity.encodeValue}.
+   *
+   * @returns {object}
+   */
+  toProto(): google.datastore.v1.IGqlQuery {
+    const namedBindings: {[k: string]: google.datastore.v1.IGqlQueryParameter} =
+      {};
+    for (const name of Object.keys(this.namedBindings)) {
+      namedBindings[name] = encodeBinding(this.namedBindings[name], name);
+    }
+    return {
+      queryString: this.queryString,
+      allowLiterals: this.allowLiterals,
+      namedBindings,
+      positionalBindings: this.positionalBindings.map((value, index) =>
+        encodeBinding(value, `@${index + 1}`),
+      ),
+    };
+  }
+}
+
+/**
+ * Convert a binding to a GqlQueryParameter proto.
+ *
+ * @private
+ * @param {*} value The bound value or {@link Cursor}.
+ * @param {string} name The name of the binding site, used in warnings.
+ */
+function encodeBinding(
+  value: Entity,
+  name: string,
+): google.datastore.v1.IGqlQueryParameter {
+  if (value instanceof Cursor) {
+    return {cursor: value.value};
+  }
+  return {
+    value: entity.encodeValue(value, name) as google.datastore.v1.IValue,
+  };
+}
+
+/**
+ * Check if something is a GqlQuery object.
+ *
+ * @private
+ * @param {*} value The value to check.
+ * @returns {boolean}
+ */
+export function isGqlQuery(value?: {}): value is GqlQuery {
+  return value instanceof GqlQuery;
+}
+
+export interface GqlQueryOptions {
+  namedBindings?: {[name: string]: Entity};
+  positionalBindings?: Entity[];
+  allowLiterals?: boolean;
+}
+
+/**
+ * Reference to the {@link GqlQuery} class.
+ * @name module:@google-cloud/datastore.GqlQuery
+ * @see GqlQuery
+ */
+export {GqlQuery};
@@ -37,14 +37,40 @@ import {
   ServiceError,
 } from 'google-gax';
 import * as is from 'is';
+import {AsyncLocalStorage} from 'async_hooks';
 import {Transform, pipeline} from 'stream';
 
 import {entity, Entities, Entity, EntityProto, ValueProto} from './entity';
 import {AggregateField} from './aggregate';
 import Key = entity.Key;
-export {Entity, Key, AggregateField};
+import Timestamp = entity.Timestamp;
+export {Entity, Key, Timestamp, AggregateField};
 import {PropertyFilter, and, or} from './filter';
 export {PropertyFilter, and, or};
+import {
+  AbortedError,
+  AlreadyExistsError,
+  ChunkError,
+  ConflictError,
+  ContentionError,
+  DatastoreError,
+  MissingIndexError,
+  NotFoundError,
+  PreconditionFailedError,
+  TransactionExpiredError,
+} from './errors';
+export {
+  AbortedError,
+  AlreadyExistsError,
+  ChunkError,
+  ConflictError,
+  ContentionError,
+  DatastoreError,
+  MissingIndexError,
+  NotFoundError,
+  PreconditionFailedError,
+  TransactionExpiredError,
+};
 import {
   GetIndexesCallback,
   GetIndexesOptions,
@@ -53,26 +79,60 @@ import {
   Index,
 } from './index-class';
 import {Query} from './query';
+import {Cursor, GqlQuery, GqlQueryOptions} from './gql-query';
+import {PropertyTransform} from './transform';
 import {
   DatastoreRequest,
+  checkNamespace,
+  commitInChunks,
+  getProjectIdOf,
+  getAmbientTransaction,
+  throwOnAmbientNamespaceErrors,
+  CommitApiResponse,
   CommitCallback,
   CommitResponse,
+  PatchEntry,
+  PatchOptions,
   PrepareEntityObjectResponse,
   SaveCallback,
   SaveResponse,
-  Mutation,
   RequestOptions,
 } from './request';
-import {Transaction} from './transaction';
+import {
+  DuplicateKeysMode,
+  MutationPlan,
+  PendingMutation,
+  Transaction,
+} from './transaction';
+import {BulkWriter, BulkWriterOptions} from './bulk-writer';
+import {Loader, LoaderOptions} from './loader';
+import {CachedEntity, EntityCache, LruCache, LruCacheOptions} from './cache';
+import {Middleware, RequestContext} from './middleware';
+import {Snapshot} from './snapshot';
+import {
+  getEntityFilterAttributes,
+  getKeyAttributes,
+  traceOperation,
+} from './telemetry';
 import {promisifyAll} from '@google-cloud/promisify';
 import {google} from '../protos/protos';
 import {AggregateQuery} from './aggregate';
 import {SaveEntity} from './interfaces/save';
-import {extendExcludeFromIndexes} from './utils/entity/extendExcludeFromIndexes';
-import {buildEntityProto} from './utils/entity/buildEntityProto';
+import {buildSaveMutation} from './utils/entity/buildSaveMutation';
+import {findConflicts} from './utils/entity/buildPreconditions';
+import {buildWriteResults} from './utils/entity/buildWriteResults';
+import {buildPatchEntity} from './utils/entity/buildPatchEntity';
 
 const {grpc} = new GrpcClient();
 
+/**
+ * The attempts and backoff of {@link Datastore#runTransaction}. The delay
+ * before a retry is a random time up to the backoff of the attempt.
+ */
+const DEFAULT_MAX_TRANSACTION_ATTEMPTS = 5;
+const TRANSACTION_INITIAL_BACKOFF_MILLIS = 100;
+const TRANSACTION_MAX_BACKOFF_MILLIS = 10 * 1000;
+
 export type PathType = string | number | entity.Int;
 export interface BooleanObject {
   [key: string]: boolean;
@@ -89,6 +149,8 @@ export type UpdateCallback = CommitCallback;
 export type UpdateResponse = CommitResponse;
 export type UpsertCallback = CommitCallback;
 export type UpsertResponse = CommitResponse;
+export type PatchCallback = CommitCallback;
+export type PatchResponse = CommitResponse;
 export type InsertCallback = CommitCallback;
 export type InsertResponse = CommitResponse;
 
@@ -169,6 +231,12 @@ const urlSafeKey = new entity.URLSafeKey();
  *     to reach Datastore. This is useful for connecting to your local Datastore
  *     server (usually "http://localhost:8080").
  * @param {string} [options.namespace] Namespace to isolate transactions to.
+ * @param {boolean|EntityCache} [options.cache] Keep the entities which are
+ *     read, and read them from the cache until they are written. Pass `true`
+ *     for an in-memory {@link LruCache}, or any {@link EntityCache}. Reads in
+ *     a transaction, at a read time or with `consistency: 'strong'` always
+ *     look the entities up. Writes made by other clients are not seen until
+ *     the entities leave the cache.
  *
  * @example Import the client library
  * ```
@@ -475,11 +543,18 @@ class Datastore extends DatastoreRequest {
   port_?: number;
   customEndpoint_?: boolean;
   auth: GoogleAuth;
+  transactionStorage_: AsyncLocalStorage<Transaction>;
+  middleware_: Middleware[];
+  namespaceView_?: {strict: boolean};
+  cache_?: EntityCache;
+  projectId_?: string;
   constructor(options?: DatastoreOptions) {
     super();
     options = options || {};
     this.clients_ = new Map();
     this.datastore = this;
+    this.transactionStorage_ = new AsyncLocalStorage();
+    this.middleware_ = [];
 
     /**
      * @name Datastore#namespace
@@ -487,6 +562,10 @@ class Datastore extends DatastoreRequest {
      */
     this.namespace = options.namespace;
 
+    if (options.cache) {
+      this.cache_ = options.cache === true ? new LruCache() : options.cache;
+    }
+
     options.projectId = options.projectId || process.env.DATASTORE_PROJECT_ID;
 
     this.defaultBaseUrl_ = 'datastore.googleapis.com';
@@ -532,6 +611,109 @@ class Datastore extends DatastoreRequest {
     return new AggregateQuery(query);
   }
 
+  /**
+   * Get a client for another database, and optionally another project, with
+   * the same options as this one. It has the full API of a Datastore client
+   * but shares the GAPIC clients and the auth client, and so the channels and
+   * credentials, of this one, as well as its middleware. Creating one is
+   * cheap, so there is no need to keep them around.
+   *
+   * @param {string} databaseId The ID of the database. Use `''` for the
+   *     default database.
+   * @param {object} [options] Configuration object.
+   * @param {string} [options.projectId] The ID of the project of the
+   *     database. Defaults to the project of this client.
+   * @returns {Datastore}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * const billing = datastore.database('billing');
+   * const [invoices] = await billing.runQuery(billing.createQuery('Invoice'));
+   *
+   * const archive = datastore.database('archive', {projectId: 'archive-project'});
+   * await archive.save({key: archive.key(['Invoice', 1]), data: invoices[0]});
+   * ```
+   */
+  database(databaseId: string, options: DatabaseOptions = {}): Datastore {
+    return this.createScopedClient_({
+      databaseId,
+      projectId: options.projectId || this.options.projectId,
+    });
+  }
+
+  /**
+   * Get a view of this client restricted to a namespace. Every key, query,
+   * aggregation and transaction created from the view is in the namespace,
+   * including the keys created from a key options object without a
+   * namespace. Like {@link Datastore#database}, the view shares the GAPIC
+   * clients and the middleware of this client. It also shares its ambient
+   * transactions, so its reads and writes join the transaction of
+   * {@link Datastore#runTransaction} or {@link Datastore#withTransaction}.
+   *
+   * In strict mode, the view also refuses to create a key or a query in
+   * another namespace, and to send a request reading or writing in another
+   * namespace, e.g. with a key created by another client. A strict view can't
+   * create a view of another namespace.
+   *
+   * @param {string} namespace The namespace. Use `''` for the default
+   *     namespace.
+   * @param {object} [options] Configuration object.
+   * @param {boolean} [options.strict=false] Reject the keys and queries of
+   *     other namespaces.
+   * @returns {Datastore}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * const tenant = datastore.withNamespace('tenant-1', {strict: true});
+   * const [tasks] = await tenant.runQuery(tenant.createQuery('Task'));
+   *
+   * // Throws, the key is in another namespace.
+   * tenant.get(datastore.key({namespace: 'tenant-2', path: ['Task', 1]}));
+   * ```
+   */
+  withNamespace(namespace: string, options: NamespaceOptions = {}): Datastore {
+    checkNamespace(this, namespace);
+    const view = this.createScopedClient_({namespace});
+    view.namespaceView_ = {
+      strict:
+        !!options.strict ||
+        !!(this.namespaceView_ && this.namespaceView_.strict),
+    };
+    return view;
+  }
+
+  /**
+   * Create a view of this client with its options overridden by `options`.
+   * The view inherits everything else from this client, e.g. its GAPIC
+   * clients, auth client, middleware and cache. A view of another project or
+   * database has its own ambient transactions, as a transaction can't span
+   * databases.
+   *
+   * @private
+   */
+  createScopedClient_(options: DatastoreOptions): Datastore {
+    const client: Datastore = Object.create(this);
+    client.datastore = client;
+    client.options = Object.assign({}, this.options, options);
+    client.namespace = client.options.namespace;
+    if (client.options.projectId !== this.options.projectId) {
+      client.projectId_ = client.options.projectId;
+    }
+    if (
+      client.options.projectId !== this.options.projectId ||
+      client.options.databaseId !== this.options.databaseId
+    ) {
+      client.transactionStorage_ = new AsyncLocalStorage();
+    }
+    return client;
+  }
+
   /**
    * Export entities from this project to a Google Cloud Storage bucket.
    *
@@ -592,15 +774,21 @@ class Datastore extends DatastoreRequest {
     delete reqOpts.kinds;
     delete reqOpts.namespaces;
 
-    this.request_(
-      {
-        client: 'DatastoreAdminClient',
-        method: 'exportEntities',
-        reqOpts: reqOpts as RequestOptions,
-        gaxOpts: config.gaxOptions,
-      },
+    traceOperation(
+      'Datastore.export',
+      getEntityFilterAttributes(this, reqOpts.entityFilter!),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       callback as any,
+      callback =>
+        this.request_(
+          {
+            client: 'DatastoreAdminClient',
+            method: 'exportEntities',
+            reqOpts: reqOpts as RequestOptions,
+            gaxOpts: config.gaxOptions,
+          },
+          callback,
+        ),
     );
   }
 
@@ -717,6 +905,9 @@ class Datastore extends DatastoreRequest {
   }
 
   getProjectId(): Promise<string> {
+    if (this.projectId_) {
+      return Promise.resolve(this.projectId_);
+    }
     return this.auth.getProjectId();
   }
 
@@ -780,15 +971,21 @@ class Datastore extends DatastoreRequest {
     delete reqOpts.kinds;
     delete reqOpts.namespaces;
 
-    this.request_(
-      {
-        client: 'DatastoreAdminClient',
-        method: 'importEntities',
-        reqOpts: reqOpts as RequestOptions,
-        gaxOpts: config.gaxOptions,
-      },
+    traceOperation(
+      'Datastore.import',
+      getEntityFilterAttributes(this, reqOpts.entityFilter!),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       callback as any,
+      callback =>
+        this.request_(
+          {
+            client: 'DatastoreAdminClient',
+            method: 'importEntities',
+            reqOpts: reqOpts as RequestOptions,
+            gaxOpts: config.gaxOptions,
+          },
+          callback,
+        ),
     );
   }
 
@@ -850,6 +1047,12 @@ class Datastore extends DatastoreRequest {
    * `excludeLargeProperties: true`.
    *  See below for an example.
    *
+   * Outside of a transaction, more than 500 entities are saved in chunks of
+   * 500. If a chunk fails, the callback receives a {@link ChunkError}, and the
+   * entities of the other chunks may have been saved. As the chunks are
+   * committed concurrently, a key can only be saved once, and the `commitTime`
+   * of the response is the latest commit time of the chunks.
+   *
    * @borrows {@link Transaction#save} as save
    *
    * @throws {Error} If an unrecognized method is provided.
@@ -864,12 +1067,28 @@ class Datastore extends DatastoreRequest {
    * @param {string} [entities.method] Explicit method to use, either 'insert',
    *     'update', or 'upsert'.
    * @param {object} entities.data Data to save with the provided key.
-   *     entity.
+   *     entity. Values may be property transforms, like
+   *     {@link Datastore.increment}, which the server applies to the stored
+   *     property. If the data holds nothing but transforms, the other
+   *     properties of the stored entity are left untouched.
+   * @param {object} [entities.transforms] Property transforms keyed by
+   *     property path, applied in addition to the ones in `entities.data`.
+   * @param {number|string} [entities.ifVersion] Only write the entity if its
+   *     stored version is still this one, e.g. `entity[Datastore.VERSION]` of
+   *     a fetched entity. Otherwise the callback receives a
+   *     {@link ConflictError} naming the key.
+   * @param {Date|Timestamp} [entities.ifUpdateTime] Only write the entity if
+   *     it was last updated at this time, e.g. `entity[Datastore.UPDATE_TIME]`
+   *     of a fetched entity or the `updateTime` of a write result. Cannot be
+   *     combined with `ifVersion`.
    * @param {object} [gaxOptions] Request configuration options, outlined here:
    *     https://googleapis.github.io/gax-nodejs/global.html#CallOptions.
    * @param {function} callback The callback function.
    * @param {?error} callback.err An error returned while making this request
-   * @param {object} callback.apiResponse The full API response.
+   * @param {object} callback.apiResponse The full API response. The decoded
+   *     results of property transforms are available as
+   *     `apiResponse.mutationResults[].transforms`, and the key, version and
+   *     update time of each saved entity as `apiResponse.writeResults`.
    *
    * @example
    * ```
@@ -1060,6 +1279,20 @@ class Datastore extends DatastoreRequest {
    * datastore.save(entity, (err, apiResponse) => {});
    *
    * //-
+   * // Only save the entity if no one changed it since it was read.
+   * //-
+   * const [company] = await datastore.get(companyKey);
+   * company.HQ = 'Austin, TX';
+   *
+   * datastore.save({
+   *   key: companyKey,
+   *   data: company,
+   *   ifVersion: company[datastore.VERSION],
+   * }, (err) => {
+   *   // `err` is a ConflictError if the company was changed.
+   * });
+   *
+   * //-
    * // Returns a Promise if callback is omitted.
    * //-
    * datastore.save(entity).then((data) => {
@@ -1085,7 +1318,28 @@ class Datastore extends DatastoreRequest {
     const callback =
       typeof gaxOptionsOrCallback === 'function' ? gaxOptionsOrCallback : cb!;
 
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      try {
+        throwOnAmbientNamespaceErrors(
+          this,
+          (entities as SaveEntity[]).map(
+            entityObject =>
+              DatastoreRequest.prepareEntityObject_(entityObject).key!,
+          ),
+        );
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      ambientTransaction.save(entities);
+      callback(null, {});
+      return;
+    }
+
     const insertIndexes: BooleanObject = {};
+    const transformIndexes: BooleanObject = {};
+    const keys: entity.Key[] = [];
     const mutations: google.datastore.v1.IMutation[] = [];
     const methods: BooleanObject = {
       insert: true,
@@ -1098,8 +1352,7 @@ class Datastore extends DatastoreRequest {
     entities
       .map(DatastoreRequest.prepareEntityObject_)
       .forEach((entityObject: Entity, index: number) => {
-        const mutation: Mutation = {};
-        let method = 'upsert';
+        let method: 'insert' | 'update' | 'upsert' = 'upsert';
 
         if (entityObject.method) {
           if (methods[entityObject.method]) {
@@ -1115,12 +1368,13 @@ class Datastore extends DatastoreRequest {
           insertIndexes[index] = true;
         }
 
-        extendExcludeFromIndexes(entityObject);
-        const entityProto = buildEntityProto(entityObject);
+        const mutation = buildSaveMutation(entityObject, method);
+        keys.push(entityObject.key);
 
-        entityProto.key = entity.keyToKeyProto(entityObject.key);
+        if (mutation.propertyTransforms) {
+          transformIndexes[index] = true;
+        }
 
-        mutation[method] = entityProto;
         mutations.push(mutation);
       });
 
@@ -1128,16 +1382,24 @@ class Datastore extends DatastoreRequest {
       mutations,
     };
 
-    function onCommit(
-      err?: Error | null,
-      resp?: google.datastore.v1.ICommitResponse,
-    ) {
+    function onCommit(err?: Error | null, resp?: CommitApiResponse) {
       if (err || !resp) {
         callback(err, resp);
         return;
       }
 
       arrify(resp.mutationResults).forEach((result, index) => {
+        if (transformIndexes[index]) {
+          const propertyTransforms = mutations[index].propertyTransforms!;
+          result.transforms = arrify(result.transformResults).reduce(
+            (transforms: Entity, value, transformIndex) => {
+              const property = propertyTransforms[transformIndex].property!;
+              transforms[property] = entity.decodeValueProto(value);
+              return transforms;
+            },
+            {},
+          );
+        }
         if (!result.key) {
           return;
         }
@@ -1147,7 +1409,9 @@ class Datastore extends DatastoreRequest {
         }
       });
 
-      callback(null, resp);
+      buildWriteResults(resp, keys);
+      const conflictError = findConflicts(arrify(resp.mutationResults), keys);
+      callback(conflictError, resp);
     }
 
     if (this.id) {
@@ -1156,14 +1420,123 @@ class Datastore extends DatastoreRequest {
       return;
     }
 
-    this.request_(
-      {
-        client: 'DatastoreClient',
-        method: 'commit',
-        reqOpts,
-        gaxOpts: gaxOptions,
-      },
+    traceOperation(
+      'Datastore.save',
+      getKeyAttributes(this, keys),
       onCommit,
+      onCommit =>
+        commitInChunks(this, reqOpts.mutations, keys, gaxOptions, onCommit),
+      resp => arrify(resp && resp.mutationResults).length,
+    );
+  }
+
+  /**
+   * Change some properties of an entity without reading it first. Only the
+   * properties in `data` and `options.deleteProperties` are written; the
+   * other properties of the stored entity are left untouched.
+   *
+   * A property name separated by dots, e.g. `address.city`, targets a
+   * property inside an entity value, leaving the other properties of
+   * `address` untouched. A property given as a whole, e.g. `address`, is
+   * replaced as a whole.
+   *
+   * To patch several entities at once, pass an array of objects with a `key`,
+   * `data` and the options below instead of the key and data.
+   *
+   * @param {Key|object[]} key Datastore key object, or the entities to patch.
+   * @param {object} data The properties to write, keyed by property path.
+   * @param {object} [options] Optional configuration.
+   * @param {string|string[]} [options.deleteProperties] Property paths to
+   *     remove from the entity.
+   * @param {string} [options.method='update'] Either 'update', which fails if
+   *     the entity does not exist, or 'upsert', which creates it.
+   * @param {string[]} [options.excludeFromIndexes] Exclude properties from
+   *     indexing. See {@link Datastore#save}.
+   * @param {boolean} [options.excludeLargeProperties] Automatically exclude
+   *     large properties from indexing.
+   * @param {number|string} [options.ifVersion] Only patch the entity if its
+   *     stored version is still this one. See {@link Datastore#save}.
+   * @param {Date|Timestamp} [options.ifUpdateTime] Only patch the entity if it
+   *     was last updated at this time. See {@link Datastore#save}.
+   * @param {object} [options.gaxOptions] Request configuration options,
+   *     outlined here:
+   *     https://googleapis.github.io/gax-nodejs/global.html#CallOptions.
+   * @param {function} callback The callback function.
+   * @param {?error} callback.err An error returned while making this request
+   * @param {object} callback.apiResponse The full API response.
+   *
+   * @example
+   * ```
+   * const key = datastore.key(['Company', 'Google']);
+   *
+   * datastore.patch(key, {
+   *   rating: 10,
+   *   'address.city': 'Mountain View',
+   * }, {deleteProperties: ['legacyId']}, (err, apiResponse) => {});
+   *
+   * //-
+   * // Patch multiple entities at once.
+   * //-
+   * datastore.patch([
+   *   {key: key, data: {rating: 10}},
+   *   {key: otherKey, data: {}, deleteProperties: 'rating'},
+   * ], (err, apiResponse) => {});
+   *
+   * //-
+   * // Returns a Promise if callback is omitted.
+   * //-
+   * datastore.patch(key, {rating: 10}).then((data) => {
+   *   const apiResponse = data[0];
+   * });
+   * ```
+   */
+  patch(
+    key: entity.Key,
+    data: PatchEntry['data'],
+    options?: PatchOptions,
+  ): Promise<PatchResponse>;
+  patch(
+    key: entity.Key,
+    data: PatchEntry['data'],
+    callback: PatchCallback,
+  ): void;
+  patch(
+    key: entity.Key,
+    data: PatchEntry['data'],
+    options: PatchOptions,
+    callback: PatchCallback,
+  ): void;
+  patch(entries: PatchEntry[]): Promise<PatchResponse>;
+  patch(entries: PatchEntry[], callback: PatchCallback): void;
+  patch(
+    keyOrEntries: entity.Key | PatchEntry[],
+    dataOrCallback?: PatchEntry['data'] | PatchCallback,
+    optionsOrCallback?: PatchOptions | PatchCallback,
+    cb?: PatchCallback,
+  ): void | Promise<PatchResponse> {
+    if (!entity.isDsKey(keyOrEntries)) {
+      this.save(
+        arrify(keyOrEntries).map(buildPatchEntity),
+        dataOrCallback as PatchCallback,
+      );
+      return;
+    }
+
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    const callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : cb!;
+    const {gaxOptions, ...entryOptions} = options;
+
+    this.save(
+      buildPatchEntity(
+        Object.assign(entryOptions, {
+          key: keyOrEntries,
+          data: dataOrCallback as PatchEntry['data'],
+        }),
+      ),
+      gaxOptions || {},
+      callback,
     );
   }
 
@@ -1227,6 +1600,213 @@ class Datastore extends DatastoreRequest {
     this.save(entities, callback!);
   }
 
+  /**
+   * Helper function to get a transform which adds the given value to the
+   * property's stored value when the entity is saved. A missing property is
+   * set to the given value.
+   *
+   * @param {number|Int|Double} value The value to add.
+   * @returns {PropertyTransform}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * //-
+   * // Bump a counter without reading the entity first. Properties other than
+   * // the transformed ones are left untouched when the entity is saved with
+   * // nothing but transforms.
+   * //-
+   * const [apiResponse] = await datastore.save({
+   *   key: datastore.key(['Page', 'home']),
+   *   data: {views: Datastore.increment(1)},
+   * });
+   *
+   * console.log(apiResponse.mutationResults[0].transforms); // {views: 43}
+   * ```
+   */
+  static increment(value: number | entity.Int | entity.Double) {
+    return new PropertyTransform('increment', value);
+  }
+
+  /**
+   * Helper function to get a transform which adds the given value to the
+   * property's stored value when the entity is saved.
+   *
+   * @param {number|Int|Double} value The value to add.
+   * @returns {PropertyTransform}
+   */
+  increment(value: number | entity.Int | entity.Double) {
+    return Datastore.increment(value);
+  }
+
+  /**
+   * Helper function to get a transform which sets the property to the maximum
+   * of its stored value and the given value when the entity is saved.
+   *
+   * @param {number|Int|Double} value The value to compare with.
+   * @returns {PropertyTransform}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * await datastore.save({
+   *   key: datastore.key(['Player', 'ada']),
+   *   data: {highScore: Datastore.maximum(1200)},
+   * });
+   * ```
+   */
+  static maximum(value: number | entity.Int | entity.Double) {
+    return new PropertyTransform('maximum', value);
+  }
+
+  /**
+   * Helper function to get a transform which sets the property to the maximum
+   * of its stored value and the given value when the entity is saved.
+   *
+   * @param {number|Int|Double} value The value to compare with.
+   * @returns {PropertyTransform}
+   */
+  maximum(value: number | entity.Int | entity.Double) {
+    return Datastore.maximum(value);
+  }
+
+  /**
+   * Helper function to get a transform which sets the property to the minimum
+   * of its stored value and the given value when the entity is saved.
+   *
+   * @param {number|Int|Double} value The value to compare with.
+   * @returns {PropertyTransform}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * await datastore.save({
+   *   key: datastore.key(['Race', 'monaco']),
+   *   data: {bestLap: Datastore.minimum(72.9)},
+   * });
+   * ```
+   */
+  static minimum(value: number | entity.Int | entity.Double) {
+    return new PropertyTransform('minimum', value);
+  }
+
+  /**
+   * Helper function to get a transform which sets the property to the minimum
+   * of its stored value and the given value when the entity is saved.
+   *
+   * @param {number|Int|Double} value The value to compare with.
+   * @returns {PropertyTransform}
+   */
+  minimum(value: number | entity.Int | entity.Double) {
+    return Datastore.minimum(value);
+  }
+
+  /**
+   * Helper function to get a transform which sets the property to the time
+   * the server processes the save.
+   *
+   * @returns {PropertyTransform}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * await datastore.save({
+   *   key: datastore.key(['Task', 'sampleTask']),
+   *   data: {
+   *     description: 'Buy milk',
+   *     updatedAt: Datastore.serverTimestamp(),
+   *   },
+   * });
+   * ```
+   */
+  static serverTimestamp() {
+    return new PropertyTransform('setToServerValue');
+  }
+
+  /**
+   * Helper function to get a transform which sets the property to the time
+   * the server processes the save.
+   *
+   * @returns {PropertyTransform}
+   */
+  serverTimestamp() {
+    return Datastore.serverTimestamp();
+  }
+
+  /**
+   * Helper function to get a transform which appends the given values that are
+   * not already present to the stored array when the entity is saved.
+   *
+   * @param {array} values The values to append.
+   * @returns {PropertyTransform}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * await datastore.save({
+   *   key: datastore.key(['Task', 'sampleTask']),
+   *   data: {tags: Datastore.arrayUnion(['urgent', 'home'])},
+   * });
+   * ```
+   */
+  static arrayUnion(values: Entity[]) {
+    return new PropertyTransform('appendMissingElements', values);
+  }
+
+  /**
+   * Helper function to get a transform which appends the given values that are
+   * not already present to the stored array when the entity is saved.
+   *
+   * @param {array} values The values to append.
+   * @returns {PropertyTransform}
+   */
+  arrayUnion(values: Entity[]) {
+    return Datastore.arrayUnion(values);
+  }
+
+  /**
+   * Helper function to get a transform which removes all of the given values
+   * from the stored array when the entity is saved.
+   *
+   * @param {array} values The values to remove.
+   * @returns {PropertyTransform}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * await datastore.save({
+   *   key: datastore.key(['Task', 'sampleTask']),
+   *   data: {tags: Datastore.arrayRemove(['urgent'])},
+   * });
+   * ```
+   */
+  static arrayRemove(values: Entity[]) {
+    return new PropertyTransform('removeAllFromArray', values);
+  }
+
+  /**
+   * Helper function to get a transform which removes all of the given values
+   * from the stored array when the entity is saved.
+   *
+   * @param {array} values The values to remove.
+   * @returns {PropertyTransform}
+   */
+  arrayRemove(values: Entity[]) {
+    return Datastore.arrayRemove(values);
+  }
+
   /**
    * Helper function to get a Datastore Double object.
    *
@@ -1363,6 +1943,69 @@ class Datastore extends DatastoreRequest {
     return Datastore.isGeoPoint(value);
   }
 
+  /**
+   * Helper function to get a Datastore Vector object, to store an embedding
+   * or to search one with {@link Query#findNearest}.
+   *
+   * @param {number[]} value The vector's components.
+   * @returns {object}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * await datastore.save({
+   *   key: datastore.key(['Product', 'shoe']),
+   *   data: {embedding: datastore.vector([0.12, 0.4, -0.73])},
+   * });
+   * ```
+   */
+  static vector(value: number[]) {
+    return new entity.Vector(value);
+  }
+
+  /**
+   * Helper function to get a Datastore Vector object.
+   *
+   * @param {number[]} value The vector's components.
+   * @returns {object}
+   *
+   */
+  vector(value: number[]) {
+    return Datastore.vector(value);
+  }
+
+  /**
+   * Helper function to check if something is a Datastore Vector object.
+   *
+   * @param {*} value The value to check.
+   * @returns {boolean}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * datastore.isVector([1, 2]); // false
+   * datastore.isVector(datastore.vector([1, 2])); // true
+   * ```
+   */
+  static isVector(value?: {}) {
+    return entity.isDsVector(value);
+  }
+
+  /**
+   * Helper function to check if something is a Datastore Vector object.
+   *
+   * @param {*} value The value to check.
+   * @returns {boolean}
+   *
+   */
+  isVector(value?: {}) {
+    return Datastore.isVector(value);
+  }
+
   /**
    * Helper function to get a Datastore Integer object.
    *
@@ -1405,6 +2048,40 @@ class Datastore extends DatastoreRequest {
     return Datastore.int(value);
   }
 
+  /**
+   * Helper function to get a query cursor that can be bound to a
+   * {@link GqlQuery}.
+   *
+   * @param {string|Buffer} value The cursor, e.g. the `endCursor` returned
+   *     from a previous query.
+   * @returns {object}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const query = datastore.createGqlQuery(
+   *   'SELECT * FROM Company LIMIT 10 OFFSET @cursor',
+   *   {namedBindings: {cursor: datastore.cursor(info.endCursor)}}
+   * );
+   * ```
+   */
+  static cursor(value: string | Buffer) {
+    return new Cursor(value);
+  }
+
+  /**
+   * Helper function to get a query cursor that can be bound to a
+   * {@link GqlQuery}.
+   *
+   * @param {string|Buffer} value The cursor value.
+   * @returns {object}
+   *
+   */
+  cursor(value: string | Buffer) {
+    return Datastore.cursor(value);
+  }
+
   /**
    * Helper function to check if something is a Datastore Integer object.
    *
@@ -1449,6 +2126,60 @@ class Datastore extends DatastoreRequest {
   static KEY: typeof entity.KEY_SYMBOL = entity.KEY_SYMBOL;
   KEY: typeof entity.KEY_SYMBOL = Datastore.KEY;
 
+  /**
+   * Access the version of an Entity object read from Datastore. Pass it as
+   * `ifVersion` to {@link Datastore#save} or {@link Datastore#delete} to only
+   * write the entity if it was not changed since it was read.
+   *
+   * @name Datastore.VERSION
+   * @type {symbol}
+   */
+  /**
+   * Access the version of an Entity object read from Datastore.
+   *
+   * @name Datastore#VERSION
+   * @type {symbol}
+   */
+  static VERSION: typeof entity.VERSION_SYMBOL = entity.VERSION_SYMBOL;
+  VERSION: typeof entity.VERSION_SYMBOL = Datastore.VERSION;
+
+  /**
+   * Access the time an Entity object read from Datastore was created, as a
+   * {@link Timestamp} with numeric `seconds` and `nanos`.
+   *
+   * @name Datastore.CREATE_TIME
+   * @type {symbol}
+   */
+  /**
+   * Access the time an Entity object read from Datastore was created.
+   *
+   * @name Datastore#CREATE_TIME
+   * @type {symbol}
+   */
+  static CREATE_TIME: typeof entity.CREATE_TIME_SYMBOL =
+    entity.CREATE_TIME_SYMBOL;
+  CREATE_TIME: typeof entity.CREATE_TIME_SYMBOL = Datastore.CREATE_TIME;
+
+  /**
+   * Access the time an Entity object read from Datastore was last updated, as
+   * a {@link Timestamp} with numeric `seconds` and `nanos`. Pass it as is as
+   * `ifUpdateTime` to {@link Datastore#save} or {@link Datastore#delete} to
+   * only write the entity if it was not changed since it was read. Converting
+   * it to a `Date` drops its microseconds, which makes the precondition fail.
+   *
+   * @name Datastore.UPDATE_TIME
+   * @type {symbol}
+   */
+  /**
+   * Access the time an Entity object read from Datastore was last updated.
+   *
+   * @name Datastore#UPDATE_TIME
+   * @type {symbol}
+   */
+  static UPDATE_TIME: typeof entity.UPDATE_TIME_SYMBOL =
+    entity.UPDATE_TIME_SYMBOL;
+  UPDATE_TIME: typeof entity.UPDATE_TIME_SYMBOL = Datastore.UPDATE_TIME;
+
   /**
    * This is one of three values which may be returned from
    * {@link Datastore#runQuery}, {@link Transaction#runQuery}, and
@@ -1516,9 +2247,80 @@ class Datastore extends DatastoreRequest {
       kind = namespaceOrKind;
       namespace = this.namespace!;
     }
+    checkNamespace(this.datastore, namespace);
     return new Query(this, namespace, arrify(kind) as string[]);
   }
 
+  /**
+   * Create a query from a GQL query string. See {@link GqlQuery} for all of
+   * the available methods.
+   *
+   * Binding values are encoded the same way as entity data, so keys,
+   * {@link Datastore#int} and {@link Datastore#double} values can all be bound.
+   * Use {@link Datastore#cursor} to bind a query cursor.
+   *
+   * @see {@link https://cloud.google.com/datastore/docs/reference/gql_reference| GQL Reference}
+   * @see {@link GqlQuery}
+   *
+   * @param {string} [namespace] Namespace.
+   * @param {string} queryString The GQL query string.
+   * @param {object} [options] Configuration object.
+   * @param {object} [options.namedBindings] Values for the `@name` binding
+   *     sites in the query string.
+   * @param {array} [options.positionalBindings] Values for the `@1`, `@2`, ...
+   *     binding sites in the query string.
+   * @param {boolean} [options.allowLiterals=true] Whether the query string may
+   *     contain literal values.
+   * @returns {GqlQuery}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const query = datastore.createGqlQuery(
+   *   'SELECT * FROM Company WHERE __key__ HAS ANCESTOR @parent',
+   *   {namedBindings: {parent: datastore.key(['Parent', 123])}}
+   * );
+   *
+   * const [entities] = await datastore.runQuery(query);
+   *
+   * //-
+   * // Aggregations are written in the query string.
+   * //-
+   * const countQuery = datastore.createGqlQuery(
+   *   'SELECT COUNT(*) AS total FROM Company'
+   * );
+   * const [[{total}]] = await datastore.runAggregationQuery(countQuery);
+   * ```
+   */
+  createGqlQuery(queryString: string, options?: GqlQueryOptions): GqlQuery;
+  createGqlQuery(
+    namespace: string,
+    queryString: string,
+    options?: GqlQueryOptions,
+  ): GqlQuery;
+  createGqlQuery(
+    namespaceOrQueryString: string,
+    queryStringOrOptions?: string | GqlQueryOptions,
+    options?: GqlQueryOptions,
+  ): GqlQuery {
+    if (typeof queryStringOrOptions === 'string') {
+      checkNamespace(this.datastore, namespaceOrQueryString);
+      return new GqlQuery(
+        this,
+        namespaceOrQueryString,
+        queryStringOrOptions,
+        options,
+      );
+    }
+    return new GqlQuery(
+      this,
+      this.namespace,
+      namespaceOrQueryString,
+      queryStringOrOptions,
+    );
+  }
+
   /**
    * Helper to create a Key object, scoped to the instance's namespace by
    * default.
@@ -1603,12 +2405,18 @@ class Datastore extends DatastoreRequest {
   key(path: PathType[]): entity.Key;
   key(path: string): entity.Key;
   key(options: string | entity.KeyOptions | PathType[]): entity.Key {
-    const keyOptions = is.object(options)
+    let keyOptions = is.object(options)
       ? (options as entity.KeyOptions)
       : {
           namespace: this.namespace,
           path: arrify(options) as PathType[],
         };
+    if (this.namespaceView_) {
+      if (keyOptions.namespace === undefined) {
+        keyOptions = Object.assign({}, keyOptions, {namespace: this.namespace});
+      }
+      checkNamespace(this, keyOptions.namespace);
+    }
     return new entity.Key(keyOptions);
   }
 
@@ -1708,7 +2516,7 @@ class Datastore extends DatastoreRequest {
       typeof locationPrefixOrCallback === 'function'
         ? locationPrefixOrCallback
         : callback;
-    this.auth.getProjectId((err, projectId) => {
+    getProjectIdOf(this, (err, projectId) => {
       if (err) {
         callback!(err);
         return;
@@ -1744,6 +2552,179 @@ class Datastore extends DatastoreRequest {
     return urlSafeKey.legacyDecode(key);
   }
 
+  /**
+   * Create a BulkWriter, to write a large number of entities outside of a
+   * transaction. Every operation returns its own promise.
+   *
+   * @param {object} [options] Configuration object.
+   * @param {boolean|object} [options.throttling=true] Whether to limit the
+   *     rate of operations, starting at 500 per second and growing by 50%
+   *     every 5 minutes. Pass an object to change the rates.
+   * @param {number} [options.throttling.initialOpsPerSecond=500] The rate to
+   *     start with.
+   * @param {number} [options.throttling.maxOpsPerSecond=10000] The highest
+   *     rate to reach.
+   * @param {number} [options.maxRetries=10] How many times to try a commit
+   *     again after a retryable error.
+   * @param {number} [options.initialRetryDelayMillis=1000] The delay before
+   *     the first retry. It doubles with every retry.
+   * @param {number} [options.maxRetryDelayMillis=60000] The longest delay
+   *     between retries.
+   * @param {object} [options.gaxOptions] Request configuration options,
+   *     outlined here:
+   *     https://googleapis.github.io/gax-nodejs/global.html#CallOptions.
+   * @returns {BulkWriter}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const writer = datastore.bulkWriter();
+   *
+   * writer.set({key: datastore.key(['Task', 'one']), data: {done: false}});
+   * writer.delete(datastore.key(['Task', 'two']));
+   * await writer.close();
+   * ```
+   */
+  bulkWriter(options?: BulkWriterOptions) {
+    return new BulkWriter(this, options);
+  }
+
+  /**
+   * Create a Loader, which merges the lookups of the entities requested in
+   * the same tick, e.g. by the resolvers of a GraphQL query. Create one for
+   * each request the application handles.
+   *
+   * @param {object} [options] Configuration object.
+   * @param {number} [options.maxBatchSize=1000] The most keys to look up at
+   *     once. Larger batches are split into several lookups.
+   * @returns {Loader}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const loader = datastore.loader();
+   *
+   * const resolvers = {
+   *   Task: {
+   *     owner: async task => {
+   *       const [owner] = await loader.get(task.owner);
+   *       return owner;
+   *     },
+   *   },
+   * };
+   * ```
+   */
+  loader(options?: LoaderOptions) {
+    return new Loader(this, options);
+  }
+
+  /**
+   * Run a function in a transaction, and commit the transaction once the
+   * function resolves. If the transaction fails because of contention, i.e.
+   * with an `ABORTED` error, the function is run again in a new transaction,
+   * after a random backoff which grows with every attempt. The new
+   * transaction continues the failed one, which gives it priority over
+   * competing transactions.
+   *
+   * If the function throws, the transaction is rolled back and the error is
+   * returned. The function must not commit or roll back the transaction
+   * itself. Requests made through this Datastore client while the function
+   * runs join the transaction, see {@link Datastore#withTransaction}.
+   *
+   * @param {function} updateFunction The function to run. It receives the
+   *     {@link Transaction} and returns a promise.
+   * @param {object} [options] Configuration object.
+   * @param {number} [options.maxAttempts=5] How many times to run the
+   *     function before giving up.
+   * @param {boolean} [options.readOnly=false] Run the function in a read-only
+   *     transaction.
+   * @param {Date|number} [options.readTime] Read the entities as they were at
+   *     this time, as a date or in milliseconds since the epoch. Requires
+   *     `readOnly`.
+   * @param {boolean} [options.readYourWrites=false] Reflect the writes queued
+   *     in the transaction in its lookups. See {@link Transaction#get}.
+   * @param {string} [options.duplicateKeys='allow'] See
+   *     {@link Datastore#transaction}.
+   * @param {number} [options.idleTimeoutMillis] See
+   *     {@link Datastore#transaction}.
+   * @returns {Promise} The value the function resolved with.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const key = datastore.key(['Account', 'alice']);
+   *
+   * const balance = await datastore.runTransaction(async transaction => {
+   *   const [account] = await transaction.get(key);
+   *   account.balance -= 10;
+   *   transaction.save({key, data: account});
+   *   return account.balance;
+   * });
+   * ```
+   */
+  async runTransaction<T>(
+    updateFunction: (transaction: Transaction) => Promise<T>,
+    options: RunTransactionOptions = {},
+  ): Promise<T> {
+    const maxAttempts =
+      options.maxAttempts === undefined
+        ? DEFAULT_MAX_TRANSACTION_ATTEMPTS
+        : options.maxAttempts;
+    if (!(maxAttempts >= 1)) {
+      throw new Error('maxAttempts must be at least 1.');
+    }
+
+    let previousTransaction: string | undefined;
+    for (let attempt = 1; ; attempt++) {
+      const transaction = this.transaction({
+        readOnly: options.readOnly,
+        readTime: options.readTime,
+        readYourWrites: options.readYourWrites,
+        duplicateKeys: options.duplicateKeys,
+        idleTimeoutMillis: options.idleTimeoutMillis,
+      });
+      let isCommitting = false;
+      try {
+        await transaction.run({transactionId: previousTransaction});
+        const result = await this.withTransaction(transaction, () =>
+          updateFunction(transaction),
+        );
+        isCommitting = true;
+        // A failed commit is rolled back by the transaction itself.
+        await transaction.commit();
+        return result;
+      } catch (err) {
+        if (!isCommitting) {
+          try {
+            await transaction.rollback();
+          } catch (error) {
+            // Provide the error from the function to the user. Even a failed
+            // rollback should be transparent.
+          }
+        }
+        if (
+          (err as ServiceError).code !== grpc.status.ABORTED ||
+          attempt >= maxAttempts
+        ) {
+          throw err;
+        }
+        previousTransaction = (transaction.id || undefined) as
+          | string
+          | undefined;
+        const backoff = Math.min(
+          TRANSACTION_INITIAL_BACKOFF_MILLIS * Math.pow(2, attempt - 1),
+          TRANSACTION_MAX_BACKOFF_MILLIS,
+        );
+        await new Promise(resolve =>
+          setTimeout(resolve, Math.random() * backoff),
+        );
+      }
+    }
+  }
+
   /**
    * Create a new Transaction object.
    *
@@ -1751,6 +2732,19 @@ class Datastore extends DatastoreRequest {
    * @param {string} [options.id] The ID of a previously run transaction.
    * @param {boolean} [options.readOnly=false] A read-only transaction cannot
    *     modify entities.
+   * @param {Date|number} [options.readTime] Read the entities of a read-only
+   *     transaction as they were at this time, as a date or in milliseconds
+   *     since the epoch. Requires `readOnly`.
+   * @param {boolean} [options.readYourWrites=false] Reflect the saves, patches
+   *     and deletes queued in the transaction in its lookups, as if they were
+   *     already committed. See {@link Transaction#createReadStream}.
+   * @param {string} [options.duplicateKeys='allow'] What to do at commit when
+   *     a key is mutated more than once, in which case only its last mutation
+   *     is committed: `'allow'` it, `'warn'` about it, or `'reject'` the
+   *     commit. See {@link Transaction#getMutationPlan}.
+   * @param {number} [options.idleTimeoutMillis] Roll the transaction back
+   *     once it has been idle for this long, so that an abandoned transaction
+   *     doesn't keep holding its locks.
    * @returns {Transaction}
    *
    * @example
@@ -1764,6 +2758,107 @@ class Datastore extends DatastoreRequest {
     return new Transaction(this, options);
   }
 
+  /**
+   * Create a read-only view of the database as it was at a point in time.
+   * Lookups and queries made through the snapshot, including its streams and
+   * aggregation queries, all read at the same time, so their results are
+   * consistent with each other.
+   *
+   * @param {Date|number} readTime The time to read at, as a date or in
+   *     milliseconds since the epoch. It must be within the version retention
+   *     period of the database.
+   * @returns {Snapshot}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const snapshot = datastore.snapshot(new Date(Date.now() - 60 * 1000));
+   *
+   * const [tasks] = await snapshot.runQuery(snapshot.createQuery('Task'));
+   * const [owners] = await snapshot.get(tasks.map(task => task.owner));
+   * ```
+   */
+  snapshot(readTime: Date | number) {
+    return new Snapshot(this, readTime);
+  }
+
+  /**
+   * Run a function with a transaction bound to its async context. Lookups,
+   * queries and writes made through this Datastore client while the function
+   * runs, including in the callbacks and promises it starts, join the
+   * transaction as if they were made through it. Writes are queued in the
+   * transaction and respond right away with an empty API response; they are
+   * applied when the transaction is committed.
+   *
+   * The function doesn't commit or roll back the transaction.
+   * {@link Datastore#runTransaction} binds the transaction it runs in the
+   * same way.
+   *
+   * @param {Transaction} transaction The transaction to join.
+   * @param {function} fn The function to run.
+   * @returns {*} The value the function returned.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * async function withdraw(key, amount) {
+   *   const [account] = await datastore.get(key);
+   *   account.balance -= amount;
+   *   await datastore.save({key, data: account});
+   * }
+   *
+   * const transaction = datastore.transaction();
+   * await transaction.run();
+   * await datastore.withTransaction(transaction, () => withdraw(key, 10));
+   * await transaction.commit();
+   * ```
+   */
+  withTransaction<T>(transaction: Transaction, fn: () => T): T {
+    return this.transactionStorage_.run(transaction, fn);
+  }
+
+  /**
+   * Add a middleware called around every RPC made by this client, including
+   * the ones made by its transactions, snapshots, bulk writers and indexes.
+   * Middleware runs in the order it was added. It sees the client and method
+   * of the RPC along with its `reqOpts` and `gaxOpts`, which it can change
+   * before calling `next`. Calling `next` sends the request and resolves with
+   * the API response, or with the stream of a streaming RPC; a middleware can
+   * also respond without calling it.
+   *
+   * The views of a client, created by {@link Datastore#database} or
+   * {@link Datastore#withNamespace}, run the middleware of the client. A
+   * middleware added to a view only runs for the requests of the view, and
+   * the view stops seeing the middleware added to the client afterwards.
+   *
+   * @param {Middleware} middleware The middleware to add.
+   * @returns {Datastore} This client, to chain calls.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   *
+   * datastore.use(async (context, next) => {
+   *   context.gaxOpts.headers['x-tenant-id'] = 'tenant-1';
+   *   const start = Date.now();
+   *   try {
+   *     return await next();
+   *   } finally {
+   *     console.log(`${context.method} took ${Date.now() - start}ms`);
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: Middleware) {
+    // A view shares the array of its client until it adds its own middleware.
+    this.middleware_ = this.middleware_.concat(middleware);
+    return this;
+  }
+
   /**
    * Determine the appropriate endpoint to use for API requests. If not
    * explicitly defined, check for the "DATASTORE_EMULATOR_HOST" environment
@@ -1832,21 +2927,39 @@ class Datastore extends DatastoreRequest {
  */
 promisifyAll(Datastore, {
   exclude: [
+    'arrayRemove',
+    'arrayUnion',
+    'bulkWriter',
     'createAggregationQuery',
+    'createGqlQuery',
+    'cursor',
+    'database',
     'double',
     'isDouble',
     'geoPoint',
     'getDatabaseId',
     'getProjectId',
+    'runTransaction',
     'isGeoPoint',
     'index',
+    'increment',
     'int',
     'isInt',
     'createQuery',
     'key',
     'isKey',
     'keyFromLegacyUrlsafe',
+    'loader',
+    'maximum',
+    'minimum',
+    'serverTimestamp',
+    'snapshot',
     'transaction',
+    'use',
+    'withNamespace',
+    'withTransaction',
+    'vector',
+    'isVector',
   ],
 });
 
@@ -1909,12 +3022,50 @@ module.exports.v1 = gapic.v1;
 export interface TransactionOptions {
   id?: string;
   readOnly?: boolean;
+  readTime?: Date | number;
+  readYourWrites?: boolean;
+  duplicateKeys?: DuplicateKeysMode;
+  idleTimeoutMillis?: number;
 }
 
-export {Index, DatastoreRequest, Query, Transaction};
+export interface RunTransactionOptions extends Omit<TransactionOptions, 'id'> {
+  maxAttempts?: number;
+}
+
+export {
+  BulkWriter,
+  BulkWriterOptions,
+  CachedEntity,
+  DuplicateKeysMode,
+  EntityCache,
+  Index,
+  DatastoreRequest,
+  Loader,
+  LoaderOptions,
+  LruCache,
+  LruCacheOptions,
+  Middleware,
+  MutationPlan,
+  PendingMutation,
+  PropertyTransform,
+  Query,
+  GqlQuery,
+  RequestContext,
+  Snapshot,
+  Transaction,
+};
+
+export interface DatabaseOptions {
+  projectId?: string;
+}
+
+export interface NamespaceOptions {
+  strict?: boolean;
+}
 
 export interface DatastoreOptions extends GoogleAuthOptions {
   namespace?: string;
+  cache?: boolean | EntityCache;
   apiEndpoint?: string;
   sslCreds?: ChannelCredentials;
   databaseId?: string;
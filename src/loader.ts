@@ -0,0 +1,252 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import arrify = require('arrify');
+import {isDeepStrictEqual} from 'util';
+import {Datastore} from '.';
+import {Entity, entity} from './entity';
+import {
+  CreateReadStreamOptions,
+  DatastoreRequest,
+  GetResponse,
+  getAmbientTransaction,
+  throwOnAmbientNamespaceErrors,
+} from './request';
+import {getKeyString} from './utils/entity/getKeyString';
+import {MAX_LOOKUP_KEYS} from './chunks';
+
+export interface LoaderOptions {
+  maxBatchSize?: number;
+}
+
+interface LoaderCall {
+  keys: entity.Key[];
+  keyStrings: string[];
+  isSingleLookup: boolean;
+  alignResults: boolean;
+  resolve: (response: GetResponse) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * The calls to {@link Loader#get} which are looked up together: the ones made
+ * in the same tick, through the same transaction and with the same options.
+ */
+interface LoaderBatch {
+  request: DatastoreRequest;
+  options: CreateReadStreamOptions;
+  keys: Map<string, entity.Key>;
+  calls: LoaderCall[];
+}
+
+/**
+ * A Loader merges the {@link Loader#get} calls made in the same tick into a
+ * single lookup, so that resolving many references one at a time, e.g. in the
+ * resolvers of a GraphQL server, doesn't send a lookup for each of them. A key
+ * requested by several calls is only looked up once.
+ *
+ * Calls made in a transaction, through {@link Datastore#withTransaction}, are
+ * looked up in that transaction. Calls with different read options, e.g.
+ * another `readTime`, are looked up separately. Batches of more than 1000
+ * keys are split into several lookups.
+ *
+ * A Loader doesn't keep the entities it has looked up, so a key requested
+ * again in a later tick is looked up again.
+ *
+ * Create a Loader with {@link Datastore#loader}.
+ *
+ * @class
+ * @param {Datastore} datastore The parent Datastore instance.
+ * @param {object} [options] Configuration options. See
+ *     {@link Datastore#loader}.
+ */
+class Loader {
+  datastore: Datastore;
+  private maxBatchSize: number;
+  private batches: LoaderBatch[] = [];
+
+  constructor(datastore: Datastore, options: LoaderOptions = {}) {
+    /**
+     * @name Loader#datastore
+     * @type {Datastore}
+     */
+    this.datastore = datastore;
+    this.maxBatchSize = Math.min(
+      options.maxBatchSize || MAX_LOOKUP_KEYS,
+      MAX_LOOKUP_KEYS,
+    );
+  }
+
+  /**
+   * Get entities by their keys, along with the other calls made in the same
+   * tick. It resolves like {@link Datastore#get}: with the entity of a single
+   * key, or with the entities found for an array of keys, and with the keys
+   * which are missing.
+   *
+   * @param {Key|Key[]} keys Datastore key object(s).
+   * @param {object} [options] Optional configuration. See
+   *     {@link Datastore#get} for a complete list of options.
+   * @returns {Promise<GetResponse>}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const loader = datastore.loader();
+   *
+   * // A single lookup for both tasks.
+   * const [[task], [owner]] = await Promise.all([
+   *   loader.get(datastore.key(['Task', 'one'])),
+   *   loader.get(datastore.key(['User', 'alice'])),
+   * ]);
+   * ```
+   */
+  get(
+    keys: entity.Key | entity.Key[],
+    options: CreateReadStreamOptions = {},
+  ): Promise<GetResponse> {
+    const keyList = arrify(keys);
+    if (keyList.length === 0) {
+      return Promise.reject(new Error('At least one Key object is required.'));
+    }
+    const ambientTransaction = getAmbientTransaction(this.datastore);
+    if (ambientTransaction) {
+      try {
+        throwOnAmbientNamespaceErrors(this.datastore, keyList);
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+    const request = ambientTransaction || this.datastore;
+    return new Promise<GetResponse>((resolve, reject) => {
+      const batch = this.getBatch(request, options);
+      const keyStrings = keyList.map(key => {
+        const keyString = getKeyString(key);
+        batch.keys.set(keyString, key);
+        return keyString;
+      });
+      batch.calls.push({
+        keys: keyList,
+        keyStrings,
+        isSingleLookup: !Array.isArray(keys),
+        alignResults: !!options.alignResults,
+        resolve,
+        reject,
+      });
+    });
+  }
+
+  /**
+   * Get the batch of the current tick for a transaction and read options,
+   * scheduling the lookups of the tick if it is the first one.
+   */
+  private getBatch(
+    request: DatastoreRequest,
+    options: CreateReadStreamOptions,
+  ): LoaderBatch {
+    let batch = this.batches.find(
+      batch =>
+        batch.request === request && isSameReadOptions(batch.options, options),
+    );
+    if (!batch) {
+      if (this.batches.length === 0) {
+        // Like DataLoader, wait for the promises already resolved to run their
+        // callbacks, so that the calls they make join the batch.
+        void Promise.resolve().then(() =>
+          process.nextTick(() => this.dispatch()),
+        );
+      }
+      batch = {request, options, keys: new Map(), calls: []};
+      this.batches.push(batch);
+    }
+    return batch;
+  }
+
+  private dispatch() {
+    const batches = this.batches;
+    this.batches = [];
+    // The lookups run outside of the transaction of the call which scheduled
+    // them, as each batch names its own transaction.
+    this.datastore.transactionStorage_.exit(() =>
+      batches.forEach(batch => this.dispatchBatch(batch)),
+    );
+  }
+
+  private dispatchBatch(batch: LoaderBatch) {
+    const keys = Array.from(batch.keys.values());
+    const entities = new Map<string, Entity>();
+    const errors = new Map<string, Error>();
+
+    const lookups: Array<Promise<void>> = [];
+    for (let i = 0; i < keys.length; i += this.maxBatchSize) {
+      const chunk = keys.slice(i, i + this.maxBatchSize);
+      lookups.push(
+        batch.request
+          .get(
+            chunk,
+            // Each call aligns its own results.
+            Object.assign({}, batch.options, {alignResults: false}),
+          )
+          .then(
+            ([results]) => {
+              arrify(results).forEach((result: Entity) =>
+                entities.set(getKeyString(result[entity.KEY_SYMBOL]), result),
+              );
+            },
+            (err: Error) => {
+              chunk.forEach(key => errors.set(getKeyString(key), err));
+            },
+          ),
+      );
+    }
+
+    void Promise.all(lookups).then(() => {
+      batch.calls.forEach(call => {
+        const failed = call.keyStrings.find(keyString => errors.has(keyString));
+        if (failed) {
+          call.reject(errors.get(failed)!);
+          return;
+        }
+        let results = call.keyStrings.map(keyString => entities.get(keyString));
+        const missing = call.keys.filter((key, index) => !results[index]);
+        if (!call.alignResults) {
+          results = results.filter(result => result !== undefined);
+        }
+        call.resolve([call.isSingleLookup ? results[0] : results, {missing}]);
+      });
+    });
+  }
+}
+
+/**
+ * Check if two calls read the entities the same way, so that they can be
+ * looked up together.
+ */
+function isSameReadOptions(
+  options: CreateReadStreamOptions,
+  otherOptions: CreateReadStreamOptions,
+): boolean {
+  return (
+    options.consistency === otherOptions.consistency &&
+    options.readTime === otherOptions.readTime &&
+    options.gaxOptions === otherOptions.gaxOptions &&
+    isDeepStrictEqual(options.wrapNumbers, otherOptions.wrapNumbers) &&
+    isDeepStrictEqual(
+      arrify(options.propertyMask),
+      arrify(otherOptions.propertyMask),
+    )
+  );
+}
+
+export {Loader};
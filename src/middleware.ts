@@ -0,0 +1,166 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {CallOptions, ClientStub} from 'google-gax';
+import {PassThrough, Readable} from 'stream';
+
+/**
+ * The request a middleware sees. `reqOpts` and `gaxOpts` can be changed, or
+ * replaced, before calling `next`.
+ *
+ * @typedef {object} RequestContext
+ * @property {string} client The name of the GAPIC client, e.g.
+ *     `DatastoreClient`.
+ * @property {string} method The name of the RPC, e.g. `commit`.
+ * @property {object} reqOpts The request, with the project ID and the
+ *     transaction already set.
+ * @property {object} gaxOpts The call options, including the headers.
+ * @property {boolean} stream Whether the RPC returns a stream.
+ */
+export interface RequestContext {
+  readonly client: string;
+  readonly method: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  reqOpts: any;
+  gaxOpts: CallOptions & {headers?: {[name: string]: string}};
+  readonly stream: boolean;
+}
+
+/**
+ * A function called around every RPC. It calls `next` to send the request,
+ * or to run the next middleware, and resolves with what the RPC responds: the
+ * API response of a unary call or the stream of a streaming call. Returning
+ * without calling `next` responds with the returned value instead.
+ *
+ * @callback Middleware
+ * @param {RequestContext} context The request.
+ * @param {function} next Send the request. It returns a promise resolving with
+ *     the response.
+ * @returns {Promise<*>}
+ */
+export type Middleware = (
+  context: RequestContext,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  next: () => Promise<any>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+) => Promise<any>;
+
+/**
+ * Run the middleware chain for a request, ending with `send`.
+ *
+ * @private
+ */
+function runMiddleware(
+  middleware: Middleware[],
+  context: RequestContext,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  send: () => Promise<any>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<any> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const dispatch = (index: number): Promise<any> => {
+    if (index === middleware.length) {
+      return send();
+    }
+    return Promise.resolve().then(() =>
+      middleware[index](context, () => dispatch(index + 1)),
+    );
+  };
+  return dispatch(0);
+}
+
+/**
+ * Build the function sending a request to a GAPIC client through the
+ * middleware. Like the bound client method it replaces, it makes a unary call
+ * when given a callback and returns a stream otherwise.
+ *
+ * @private
+ *
+ * @param {Middleware[]} middleware The middleware, in the order it runs.
+ * @param {object} gaxClient The GAPIC client.
+ * @param {object} request The client name, method, `reqOpts` and `gaxOpts`.
+ * @returns {function}
+ */
+export function wrapRequest(
+  middleware: Middleware[],
+  gaxClient: ClientStub,
+  request: Omit<RequestContext, 'stream'>,
+) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (callback?: (err: Error | null, ...args: any[]) => void) => {
+    const context: RequestContext = {
+      client: request.client,
+      method: request.method,
+      reqOpts: request.reqOpts,
+      gaxOpts: request.gaxOpts,
+      stream: !callback,
+    };
+
+    if (callback) {
+      // The additional arguments of the callback, e.g. the raw response, are
+      // only kept when the response comes from the API.
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let extras: any[] = [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let apiResponse: any;
+      const send = () =>
+        new Promise((resolve, reject) => {
+          gaxClient[context.method](
+            context.reqOpts,
+            context.gaxOpts,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (err: Error | null, resp: any, ...rest: any[]) => {
+              if (err) {
+                reject(err);
+                return;
+              }
+              apiResponse = resp;
+              extras = rest;
+              resolve(resp);
+            },
+          );
+        });
+      runMiddleware(middleware, context, send).then(
+        resp => callback(null, resp, ...(resp === apiResponse ? extras : [])),
+        err => callback(err),
+      );
+      return;
+    }
+
+    const stream = new PassThrough({objectMode: true}) as PassThrough & {
+      cancel?: () => void;
+    };
+    let source: Readable & {cancel?: () => void};
+    stream.cancel = () => {
+      if (source && source.cancel) {
+        source.cancel();
+      }
+    };
+    const send = () =>
+      Promise.resolve(
+        gaxClient[context.method](context.reqOpts, context.gaxOpts),
+      );
+    runMiddleware(middleware, context, send).then(
+      result => {
+        source = result;
+        source
+          .on('error', (err: Error) => stream.destroy(err))
+          .on('response', stream.emit.bind(stream, 'response'))
+          .pipe(stream);
+      },
+      err => stream.destroy(err),
+    );
+    return stream;
+  };
+}
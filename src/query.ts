@@ -15,6 +15,7 @@
  */
 
 import arrify = require('arrify');
+import * as extend from 'extend';
 import {Key} from 'readline';
 import {Datastore} from '.';
 import {Entity} from './entity';
@@ -86,6 +87,7 @@ class Query {
   endVal: string | Buffer | null;
   limitVal: number;
   offsetVal: number;
+  findNearestVal: FindNearestOptions | null;
 
   constructor(scope?: Datastore | Transaction, kinds?: string[] | null);
   constructor(
@@ -168,6 +170,13 @@ class Query {
      * @type {number}
      */
     this.offsetVal = -1;
+
+    // vector search
+    /**
+     * @name Query#findNearestVal
+     * @type {?object}
+     */
+    this.findNearestVal = null;
   }
 
   /**
@@ -454,6 +463,54 @@ class Query {
     return this;
   }
 
+  /**
+   * Find the entities whose vector property is nearest to a query vector. The
+   * ordering of the nearest neighbors supersedes any order set with
+   * {@link Query#order}.
+   *
+   * @see {@link https://cloud.google.com/datastore/docs/vector-search| Vector Search}
+   *
+   * @param {object} options Configuration object.
+   * @param {string} options.vectorProperty The indexed vector property to
+   *     search upon.
+   * @param {Vector|number[]} options.queryVector The vector to search for.
+   * @param {string} options.distanceMeasure One of `EUCLIDEAN`, `COSINE` or
+   *     `DOT_PRODUCT`.
+   * @param {number} options.limit The number of nearest neighbors to return,
+   *     at most 100.
+   * @param {string} [options.distanceResultProperty] Name of a property to
+   *     add to each result holding its computed distance.
+   * @param {number} [options.distanceThreshold] Only return entities within
+   *     this distance of the query vector.
+   * @returns {Query}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const query = datastore.createQuery('Product').findNearest({
+   *   vectorProperty: 'embedding',
+   *   queryVector: datastore.vector([0.12, 0.4, -0.73]),
+   *   distanceMeasure: 'COSINE',
+   *   limit: 10,
+   *   distanceResultProperty: 'distance',
+   * });
+   *
+   * const [products] = await query.run();
+   * // products[0].distance === 0.0132...
+   * ```
+   */
+  findNearest(options: FindNearestOptions) {
+    if (!options.vectorProperty) {
+      throw new Error('A vector property is required for a nearest search.');
+    }
+    if (!Number.isInteger(options.limit) || options.limit <= 0) {
+      throw new Error('The limit must be a positive integer.');
+    }
+    this.findNearestVal = Object.assign({}, options);
+    return this;
+  }
+
   /**
    * Run the query.
    *
@@ -572,6 +629,93 @@ class Query {
   runStream(options?: RunQueryStreamOptions) {
     return this.scope!.runQueryStream(this, options);
   }
+
+  /**
+   * Iterate over the results of the query one page at a time.
+   *
+   * Each page is the result of a call to {@link Datastore#runQuery}, so the
+   * "NOT_FINISHED" batches returned by Datastore are followed automatically.
+   * Once a page has been read, the query continues from the page's end
+   * cursor until there are no more results or the query's own limit is
+   * reached.
+   *
+   * @param {object} [options] Optional configuration. See
+   *     {@link Query#run} for a complete list of options.
+   * @param {number} [options.pageSize] The maximum number of entities in each
+   *     page. If omitted, the first page contains every result the query's
+   *     own limit allows.
+   * @returns {AsyncIterable<QueryPage>}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const query = datastore.createQuery('Company');
+   *
+   * for await (const page of query.pages({pageSize: 100})) {
+   *   // page.entities = An array of up to 100 records.
+   *   // page.endCursor = Use this to resume the query later.
+   *   // page.moreResults = Whether more results may exist.
+   * }
+   * ```
+   */
+  async *pages(options: QueryPagesOptions = {}): AsyncGenerator<QueryPage> {
+    const {pageSize, ...runOptions} = options;
+    if (pageSize !== undefined && !(pageSize > 0)) {
+      throw new Error('The page size must be a positive number.');
+    }
+    const query: Query = extend(true, new Query(), this);
+    let remaining = query.limitVal > -1 ? query.limitVal : Infinity;
+
+    while (remaining > 0) {
+      if (pageSize) {
+        query.limit(Math.min(pageSize, remaining));
+      }
+      const [entities, info] = await this.scope!.runQuery(query, runOptions);
+      remaining -= entities.length;
+      yield {
+        entities,
+        endCursor: info.endCursor,
+        moreResults: info.moreResults,
+      };
+
+      // Only a page limit that we set ourselves can be continued from.
+      if (
+        !pageSize ||
+        info.moreResults !== 'MORE_RESULTS_AFTER_LIMIT' ||
+        !info.endCursor ||
+        entities.length === 0
+      ) {
+        return;
+      }
+      query.start(info.endCursor).offset(-1);
+    }
+  }
+
+  /**
+   * Iterate over the entities matched by the query with `for await`.
+   *
+   * The entities are read from {@link Query#runStream}, so results are
+   * streamed as they arrive and breaking out of the loop stops any further
+   * API requests.
+   *
+   * @returns {AsyncIterator<object>}
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const query = datastore.createQuery('Company');
+   *
+   * for await (const entity of query) {
+   *   // Access the Key object for this entity.
+   *   const key = entity[datastore.KEY];
+   * }
+   * ```
+   */
+  [Symbol.asyncIterator](): AsyncIterator<Entity> {
+    return this.runStream()[Symbol.asyncIterator]();
+  }
 }
 
 export interface QueryProto {
@@ -584,6 +728,18 @@ export interface QueryProto {
   limit?: {};
   offset?: number;
   filter?: {};
+  findNearest?: {};
+}
+
+export type DistanceMeasure = 'EUCLIDEAN' | 'COSINE' | 'DOT_PRODUCT';
+
+export interface FindNearestOptions {
+  vectorProperty: string;
+  queryVector: Entity;
+  distanceMeasure: DistanceMeasure;
+  limit: number;
+  distanceResultProperty?: string;
+  distanceThreshold?: number;
 }
 
 /**
@@ -608,6 +764,17 @@ export interface RunQueryOptions {
   gaxOptions?: CallOptions;
   explainOptions?: ExplainOptions;
   wrapNumbers?: boolean | IntegerTypeCastOptions;
+  propertyMask?: string | string[];
+}
+
+export interface QueryPagesOptions extends RunQueryOptions {
+  pageSize?: number;
+}
+
+export interface QueryPage {
+  entities: Entity[];
+  endCursor?: string;
+  moreResults?: RunQueryInfo['moreResults'];
 }
 
 export interface RunQueryCallback {
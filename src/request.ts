@@ -34,7 +34,7 @@ export interface AbortableDuplex extends Duplex {
 }
 
 interface TransactionRequestOptions {
-  readOnly?: {};
+  readOnly?: {readTime?: ITimestamp};
   readWrite?: {previousTransaction?: string | Uint8Array | null};
 }
 
@@ -64,7 +64,46 @@ import {
 import {Datastore, Transaction} from '.';
 import ITimestamp = google.protobuf.ITimestamp;
 import {AggregateQuery} from './aggregate';
+import {GqlQuery, isGqlQuery} from './gql-query';
 import {RunOptions} from './transaction';
+import {PropertyTransform} from './transform';
+import {
+  buildPreconditions,
+  findConflicts,
+} from './utils/entity/buildPreconditions';
+import {buildWriteResults} from './utils/entity/buildWriteResults';
+import {
+  DatastoreError,
+  TransactionExpiredError,
+  toDatastoreError,
+} from './errors';
+import {wrapRequest} from './middleware';
+import {
+  MAX_COMMIT_MUTATIONS,
+  MAX_LOOKUP_KEYS,
+  runChunks,
+  splitIntoChunks,
+} from './chunks';
+import {getKeyString} from './utils/entity/getKeyString';
+import {
+  endCacheRead,
+  getCacheKey,
+  getReadCache,
+  invalidateCache,
+  readFromCache,
+  startCacheRead,
+  writeToCache,
+} from './cache';
+import {
+  SpanAttribute,
+  endSpan,
+  getKeyAttributes,
+  getKinds,
+  getRequestAttributes,
+  startSpan,
+  traceOperation,
+} from './telemetry';
+import {SpanKind} from '@opentelemetry/api';
 import * as protos from '../protos/protos';
 import {serializer} from 'google-gax';
 import * as gax from 'google-gax';
@@ -172,6 +211,26 @@ function throwOnReadTimeAndConsistency(options: RunQueryStreamOptions) {
   }
 }
 
+/**
+ * Get the property mask of a lookup or query from the `propertyMask` option,
+ * if there is one.
+ *
+ * @param {RunQueryStreamOptions} options The read options.
+ * @returns {object|undefined}
+ */
+function getPropertyMask(
+  options: RunQueryStreamOptions,
+): google.datastore.v1.IPropertyMask | undefined {
+  if (!options.propertyMask) {
+    return;
+  }
+  const paths = arrify(options.propertyMask);
+  if (paths.some(path => typeof path !== 'string' || path.length === 0)) {
+    throw new Error('A property mask path must be a non-empty string.');
+  }
+  return {paths};
+}
+
 /**
  * A map of read consistency values to proto codes.
  *
@@ -372,13 +431,17 @@ class DatastoreRequest {
    */
   protected checkExpired() {
     if (this.state === TransactionState.EXPIRED) {
-      throw Error(transactionExpiredError);
+      throw new TransactionExpiredError(transactionExpiredError);
     }
   }
 
   /**
    * Retrieve the entities as a readable object stream.
    *
+   * The stream emits a `missing` event with the keys of the entities which
+   * are not found, once for each lookup which doesn't find some of them.
+   * `alignResults` only applies to {@link Datastore#get}.
+   *
    * @throws {Error} If at least one Key object is not provided.
    * @throws {Error} If read time and read consistency cannot both be specified.
    *
@@ -398,6 +461,9 @@ class DatastoreRequest {
    *   .on('data', (entity) => {
    *     // entity is an entity object.
    *   })
+   *   .on('missing', (keys) => {
+   *     // keys are the keys of entities which were not found.
+   *   })
    *   .on('end', () => {
    *     // All entities retrieved.
    *   });
@@ -407,16 +473,39 @@ class DatastoreRequest {
     keys: Entities,
     options: CreateReadStreamOptions = {},
   ): Transform {
-    keys = arrify(keys).map(entity.keyToKeyProto);
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      throwOnAmbientNamespaceErrors(this, arrify(keys) as entity.Key[]);
+      return ambientTransaction.createReadStream(keys, options);
+    }
+    const requestedKeys = arrify(keys) as entity.Key[];
+    keys = requestedKeys.map(entity.keyToKeyProto);
     if (keys.length === 0) {
       throw new Error('At least one Key object is required.');
     }
     this.checkExpired();
     throwOnReadTimeAndConsistency(options);
+    if (requestedKeys.length > MAX_LOOKUP_KEYS) {
+      if (isTransaction(this)) {
+        throw new Error(
+          `A transaction can't look up more than ${MAX_LOOKUP_KEYS} keys at once, not ${requestedKeys.length}.`,
+        );
+      }
+      return readInChunks(this, requestedKeys, options);
+    }
+    const cache = getReadCache(this, options);
     const reqOpts = this.getRequestOptions(options);
     throwOnTransactionErrors(this, reqOpts);
-    const makeRequest = (keys: entity.Key[] | KeyProto[]) => {
+    const propertyMask = getPropertyMask(options);
+    if (propertyMask) {
+      reqOpts.propertyMask = propertyMask;
+    }
+    const makeRequest = (
+      keys: entity.Key[] | KeyProto[],
+      cacheKeys: string[] = [],
+    ) => {
       Object.assign(reqOpts, {keys});
+      const cacheRead = cache && startCacheRead(cache, cacheKeys);
       this.request_(
         {
           client: 'DatastoreClient',
@@ -425,6 +514,16 @@ class DatastoreRequest {
           gaxOpts: options.gaxOptions,
         },
         (err, resp) => {
+          if (cacheRead) {
+            if (!err) {
+              writeToCache(
+                this.datastore,
+                cacheRead,
+                resp!.found! as ResponseResult[],
+              );
+            }
+            endCacheRead(cacheRead);
+          }
           this.parseTransactionResponse(resp);
           if (err) {
             stream.destroy(err);
@@ -442,9 +541,21 @@ class DatastoreRequest {
             stream.destroy(err);
             return;
           }
-          const nextKeys = (resp!.deferred || [])
-            .map(entity.keyFromKeyProto)
-            .map(entity.keyToKeyProto);
+          if (resp!.missing && resp!.missing.length > 0) {
+            stream.emit(
+              'missing',
+              (resp!.missing as ResponseResult[]).map(result =>
+                entity.keyFromKeyProto(result.entity.key!),
+              ),
+            );
+          }
+          const deferredKeys: entity.Key[] = (resp!.deferred || []).map(
+            entity.keyFromKeyProto,
+          );
+          const nextKeys = deferredKeys.map(entity.keyToKeyProto);
+          const nextCacheKeys = cache
+            ? deferredKeys.map(key => getCacheKey(this.datastore, key))
+            : [];
 
           split(entities, stream)
             .then(streamEnded => {
@@ -453,7 +564,7 @@ class DatastoreRequest {
               }
 
               if (nextKeys.length > 0) {
-                makeRequest(nextKeys);
+                makeRequest(nextKeys, nextCacheKeys);
                 return;
               }
 
@@ -468,7 +579,45 @@ class DatastoreRequest {
 
     const stream = streamEvents(new Transform({objectMode: true}));
     stream.once('reading', () => {
-      makeRequest(keys);
+      if (!cache) {
+        makeRequest(keys);
+        return;
+      }
+      const cacheKeys = requestedKeys.map(key =>
+        getCacheKey(this.datastore, key),
+      );
+      void readFromCache(cache, cacheKeys).then(cachedEntities => {
+        const uncachedKeys = (keys as KeyProto[]).filter(
+          (key, index) => !cachedEntities[index],
+        );
+        const uncachedCacheKeys = cacheKeys.filter(
+          (cacheKey, index) => !cachedEntities[index],
+        );
+        let entities: Entity[] = [];
+        try {
+          entities = entity.formatArray(
+            cachedEntities.filter(result => !!result) as ResponseResult[],
+            options.wrapNumbers,
+          );
+        } catch (err) {
+          stream.destroy(err);
+          return;
+        }
+        split(entities, stream)
+          .then(streamEnded => {
+            if (streamEnded) {
+              return;
+            }
+            if (uncachedKeys.length > 0) {
+              makeRequest(uncachedKeys, uncachedCacheKeys);
+              return;
+            }
+            stream.push(null);
+          })
+          .catch(err => {
+            throw err;
+          });
+      });
     });
     return stream;
   }
@@ -476,12 +625,27 @@ class DatastoreRequest {
   /**
    * Delete all entities identified with the specified key(s).
    *
-   * @param {Key|Key[]} key Datastore key object(s).
+   * To only delete an entity if it was not changed since it was read, pass an
+   * object with the key and an `ifVersion` or `ifUpdateTime` precondition
+   * instead of the key. If the precondition does not match, the entity is not
+   * deleted and the callback receives a {@link ConflictError}.
+   *
+   * Outside of a transaction, more than 500 keys are deleted in chunks of 500.
+   * If a chunk fails, the callback receives a {@link ChunkError}, and the
+   * entities of the other chunks may have been deleted. As the chunks are
+   * committed concurrently, a key can only be deleted once, and the
+   * `commitTime` of the response is the latest commit time of the chunks.
+   *
+   * @param {Key|Key[]|object|object[]} key Datastore key object(s), or
+   *     objects with a `key` and an `ifVersion` or `ifUpdateTime`
+   *     precondition.
    * @param {object} [gaxOptions] Request configuration options, outlined here:
    *     https://googleapis.github.io/gax-nodejs/global.html#CallOptions.
    * @param {function} callback The callback function.
    * @param {?error} callback.err An error returned while making this request
-   * @param {object} callback.apiResponse The full API response.
+   * @param {object} callback.apiResponse The full API response. The key,
+   *     version and update time of each deleted entity are available as
+   *     `apiResponse.writeResults`.
    *
    * @example
    * ```
@@ -516,6 +680,17 @@ class DatastoreRequest {
    * ], (err, apiResponse) => {});
    *
    * //-
+   * // Delete an entity only if it was not changed since it was read.
+   * //-
+   * const [company] = await datastore.get(datastore.key(['Company', 123]));
+   * datastore.delete({
+   *   key: company[datastore.KEY],
+   *   ifVersion: company[datastore.VERSION],
+   * }, (err, apiResponse) => {
+   *   // `err` is a ConflictError if the company was changed.
+   * });
+   *
+   * //-
    * // Returns a Promise if callback is omitted.
    * //-
    * datastore.delete().then((data) => {
@@ -531,7 +706,7 @@ class DatastoreRequest {
     callback: DeleteCallback,
   ): void;
   delete(
-    keys: entity.Key | entity.Key[],
+    keys: entity.Key | DeleteEntry | Array<entity.Key | DeleteEntry>,
     gaxOptionsOrCallback?: CallOptions | DeleteCallback,
     cb?: DeleteCallback,
   ): void | Promise<DeleteResponse> {
@@ -540,28 +715,77 @@ class DatastoreRequest {
     const callback =
       typeof gaxOptionsOrCallback === 'function' ? gaxOptionsOrCallback : cb!;
 
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      try {
+        throwOnAmbientNamespaceErrors(
+          this,
+          arrify(keys).map(keyOrEntry =>
+            isDeleteEntry(keyOrEntry) ? keyOrEntry.key : keyOrEntry,
+          ),
+        );
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      ambientTransaction.delete(keys);
+      callback(null, {});
+      return;
+    }
+
+    const entries = arrify(keys).map(keyOrEntry =>
+      isDeleteEntry(keyOrEntry) ? keyOrEntry : {key: keyOrEntry},
+    );
+
     const reqOpts = {
-      mutations: arrify(keys).map(key => {
-        return {
-          delete: entity.keyToKeyProto(key),
+      mutations: entries.map(entry => {
+        const mutation: google.datastore.v1.IMutation = {
+          delete: entity.keyToKeyProto(entry.key),
         };
+        buildPreconditions(mutation, entry);
+        return mutation;
       }),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any;
 
+    // Inside a transaction, the mutations are committed after the ones queued
+    // before them.
+    const offset = this.id
+      ? this.requests_.reduce(
+          (count: number, request: {mutations: Array<{}>}) =>
+            count + request.mutations.length,
+          0,
+        )
+      : 0;
+
+    function onCommit(err?: Error | null, resp?: CommitApiResponse) {
+      if (err || !resp) {
+        callback(err, resp);
+        return;
+      }
+
+      const keys = entries.map(entry => entry.key);
+      buildWriteResults(resp, keys, offset);
+      const conflictError = findConflicts(
+        arrify(resp.mutationResults),
+        keys,
+        offset,
+      );
+      callback(conflictError, resp);
+    }
+
     if (this.id) {
       this.requests_.push(reqOpts);
+      this.requestCallbacks_.push(onCommit);
       return;
     }
 
-    this.request_(
-      {
-        client: 'DatastoreClient',
-        method: 'commit',
-        reqOpts,
-        gaxOpts: gaxOptions,
-      },
-      callback,
+    commitInChunks(
+      this,
+      reqOpts.mutations,
+      entries.map(entry => entry.key),
+      gaxOptions,
+      onCommit,
     );
   }
 
@@ -570,6 +794,9 @@ class DatastoreRequest {
    * transaction. Get operations require a valid key to retrieve the
    * key-identified entity from Datastore.
    *
+   * Outside of a transaction, more than 1000 keys are looked up in chunks of
+   * 1000. In a transaction, more than 1000 keys are an error.
+   *
    * @throws {Error} If at least one Key object is not provided.
    *
    * @param {Key|Key[]} keys Datastore key object(s).
@@ -586,10 +813,22 @@ class DatastoreRequest {
    *     If an `object`, this will return a value returned by
    *     `wrapNumbers.integerTypeCastFunction`.
    *     Please see {@link IntegerTypeCastOptions} for options descriptions.
+   * @param {string|string[]} [options.propertyMask] Only return these
+   *     properties of the entities. A path may reference a property inside an
+   *     entity value, e.g. `address.city`, but not one inside an array. The
+   *     other properties are left out of the returned entities, so do not
+   *     save them back as a whole.
+   * @param {boolean} [options.alignResults=false] Return an entry for each of
+   *     the keys, in the order of the keys, which is `undefined` if the entity
+   *     is not found. Otherwise only the entities found are returned, in any
+   *     order.
    * @param {function} callback The callback function.
    * @param {?error} callback.err An error returned while making this request
    * @param {object|object[]} callback.entity The entity object(s) which match
    *     the provided keys.
+   * @param {object} callback.info Information about the lookup.
+   * @param {Key[]} callback.info.missing The keys of the entities which are
+   *     not found.
    *
    * @example
    * ```
@@ -651,6 +890,13 @@ class DatastoreRequest {
    * });
    *
    * //-
+   * // Only read some of the properties.
+   * //-
+   * datastore.get(key, {propertyMask: ['name', 'address.city']}, (err, entity) => {
+   *   // entity.address only holds `city`.
+   * });
+   *
+   * //-
    * // Returns a Promise if callback is omitted.
    * //-
    * datastore.get(keys).then((data) => {
@@ -680,18 +926,57 @@ class DatastoreRequest {
     const callback =
       typeof optionsOrCallback === 'function' ? optionsOrCallback : cb!;
 
-    try {
-      this.createReadStream(keys, options)
-        .on('error', callback)
-        .pipe(
-          concat((results: Entity[]) => {
-            const isSingleLookup = !Array.isArray(keys);
-            callback(null, isSingleLookup ? results[0] : results);
-          }),
-        );
-    } catch (err: any) {
-      callback(err);
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      try {
+        throwOnAmbientNamespaceErrors(this, arrify(keys));
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      ambientTransaction.get(keys, options, callback);
+      return;
     }
+
+    traceOperation(
+      'Datastore.get',
+      getKeyAttributes(this, arrify(keys)),
+      callback,
+      callback => {
+        try {
+          this.createReadStream(keys, options)
+            .on('error', callback)
+            .pipe(
+              concat((results: Entity[]) => {
+                const found = new Map<string, Entity>();
+                results
+                  .filter(result => result[entity.KEY_SYMBOL])
+                  .forEach(result =>
+                    found.set(getKeyString(result[entity.KEY_SYMBOL]), result),
+                  );
+                const requestedKeys = arrify(keys);
+                const missing = requestedKeys.filter(
+                  key => !found.has(getKeyString(key)),
+                );
+                if (options.alignResults) {
+                  results = requestedKeys.map(key =>
+                    found.get(getKeyString(key)),
+                  );
+                }
+                const isSingleLookup = !Array.isArray(keys);
+                callback(null, isSingleLookup ? results[0] : results, {
+                  missing,
+                });
+              }),
+            );
+        } catch (err: any) {
+          callback(err);
+        }
+      },
+      entities =>
+        arrify(entities).filter((entity: Entity) => entity !== undefined)
+          .length,
+    );
   }
 
   /**
@@ -717,7 +1002,11 @@ class DatastoreRequest {
    * The query is run, and the results are returned in the second argument of
    * the callback provided.
    *
-   * @param {AggregateQuery} query AggregateQuery object.
+   * A {@link GqlQuery} containing aggregations, e.g.
+   * `SELECT COUNT(*) AS total FROM Task`, can be run in place of an
+   * AggregateQuery.
+   *
+   * @param {AggregateQuery|GqlQuery} query AggregateQuery or GqlQuery object.
    * @param {RunQueryOptions} options Optional configuration
    * @param {function} [callback] The callback function. If omitted, a promise is
    * returned.
@@ -726,20 +1015,20 @@ class DatastoreRequest {
    *
    **/
   runAggregationQuery(
-    query: AggregateQuery,
+    query: AggregateQuery | GqlQuery,
     options?: RunQueryOptions,
   ): Promise<RunQueryResponse>;
   runAggregationQuery(
-    query: AggregateQuery,
+    query: AggregateQuery | GqlQuery,
     options: RunQueryOptions,
     callback: RunAggregationQueryCallback,
   ): void;
   runAggregationQuery(
-    query: AggregateQuery,
+    query: AggregateQuery | GqlQuery,
     callback: RunAggregationQueryCallback,
   ): void;
   runAggregationQuery(
-    query: AggregateQuery,
+    query: AggregateQuery | GqlQuery,
     optionsOrCallback?: RunQueryOptions | RunAggregationQueryCallback,
     cb?: RequestCallback,
   ): void | Promise<RunQueryResponse> {
@@ -748,18 +1037,45 @@ class DatastoreRequest {
     const callback =
       typeof optionsOrCallback === 'function' ? optionsOrCallback : cb!;
 
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      try {
+        throwOnAmbientNamespaceErrors(
+          this,
+          [],
+          isGqlQuery(query) ? query : query.query,
+        );
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      ambientTransaction.runAggregationQuery(query, options, callback);
+      return;
+    }
     if (this.state === TransactionState.EXPIRED) {
-      callback(new Error(transactionExpiredError));
+      callback(new TransactionExpiredError(transactionExpiredError));
       return;
     }
     if (options.readTime && options.consistency) {
       callback(new Error(readTimeAndConsistencyError));
       return;
     }
-    query.query = extend(true, new Query(), query.query);
-    let queryProto: QueryProto;
+    if (!isGqlQuery(query)) {
+      query.query = extend(true, new Query(), query.query);
+    }
+    let queryFields: Pick<
+      RunAggregationQueryRequest,
+      'aggregationQuery' | 'gqlQuery'
+    >;
     try {
-      queryProto = entity.queryToQueryProto(query.query);
+      queryFields = isGqlQuery(query)
+        ? {gqlQuery: query.toProto()}
+        : {
+            aggregationQuery: {
+              nestedQuery: entity.queryToQueryProto(query.query!),
+              aggregations: query.toProto(),
+            },
+          };
     } catch (e) {
       // using setImmediate here to make sure this doesn't throw a
       // synchronous error
@@ -768,50 +1084,61 @@ class DatastoreRequest {
     }
     let sharedQueryOpts;
     try {
-      sharedQueryOpts = this.getQueryOptions(query.query, options);
+      sharedQueryOpts = this.getQueryOptions(
+        isGqlQuery(query) ? query : query.query!,
+        options,
+      );
       throwOnTransactionErrors(this, sharedQueryOpts);
     } catch (error: any) {
       callback(error);
       return;
     }
-    const aggregationQueryOptions: AggregationQueryOptions = {
-      nestedQuery: queryProto,
-      aggregations: query.toProto(),
-    };
-    const reqOpts: RunAggregationQueryRequest = Object.assign(sharedQueryOpts, {
-      aggregationQuery: aggregationQueryOptions,
-    });
-    this.request_(
-      {
-        client: 'DatastoreClient',
-        method: 'runAggregationQuery',
-        reqOpts,
-        gaxOpts: options.gaxOptions,
-      },
-      (err, res) => {
-        const info = getInfoFromStats(res);
-        this.parseTransactionResponse(res);
-        if (res && res.batch) {
-          const results = res.batch.aggregationResults;
-          const finalResults = results
-            .map(
-              (aggregationResult: any) => aggregationResult.aggregateProperties,
-            )
-            .map((aggregateProperties: any) =>
-              Object.fromEntries(
-                new Map(
-                  Object.keys(aggregateProperties).map(key => [
-                    key,
-                    entity.decodeValueProto(aggregateProperties[key]),
-                  ]),
-                ),
-              ),
-            );
-          callback(err, finalResults, info);
-        } else {
-          callback(err, [], info);
-        }
-      },
+    const reqOpts: RunAggregationQueryRequest = Object.assign(
+      sharedQueryOpts,
+      queryFields,
+    );
+    traceOperation(
+      'Datastore.runAggregationQuery',
+      getQueryAttributes(this, isGqlQuery(query) ? query : query.query!),
+      callback,
+      callback =>
+        this.request_(
+          {
+            client: 'DatastoreClient',
+            method: 'runAggregationQuery',
+            reqOpts,
+            gaxOpts: options.gaxOptions,
+          },
+          (err, res) => {
+            if (err instanceof DatastoreError) {
+              err.query = query;
+            }
+            const info = getInfoFromStats(res);
+            this.parseTransactionResponse(res);
+            if (res && res.batch) {
+              const results = res.batch.aggregationResults;
+              const finalResults = results
+                .map(
+                  (aggregationResult: any) =>
+                    aggregationResult.aggregateProperties,
+                )
+                .map((aggregateProperties: any) =>
+                  Object.fromEntries(
+                    new Map(
+                      Object.keys(aggregateProperties).map(key => [
+                        key,
+                        entity.decodeValueProto(aggregateProperties[key]),
+                      ]),
+                    ),
+                  ),
+                );
+              callback(err, finalResults, info);
+            } else {
+              callback(err, [], info);
+            }
+          },
+        ),
+      results => arrify(results).length,
     );
   }
 
@@ -825,7 +1152,7 @@ class DatastoreRequest {
    * that uses the end cursor from the previous query as the starting cursor for
    * the next query. You can pass that object back to this method to see if more
    * results exist.
-   * @param {Query} query A Query object
+   * @param {Query|GqlQuery} query A Query or GqlQuery object
    * @param {object} [options] Optional configuration.
    * @param {string} [options.consistency] Specify either `strong` or `eventual`.
    *     If not specified, default values are chosen by Datastore for the
@@ -839,6 +1166,8 @@ class DatastoreRequest {
    *     If an `object`, this will return a value returned by
    *     `wrapNumbers.integerTypeCastFunction`.
    *     Please see {@link IntegerTypeCastOptions} for options descriptions.
+   * @param {string|string[]} [options.propertyMask] Only return these
+   *     properties of the entities. See {@link Datastore#get}.
    * @param {function} [callback] The callback function. If omitted, a readable
    *     stream instance is returned.
    * @param {?error} callback.err An error returned while making this request
@@ -914,15 +1243,18 @@ class DatastoreRequest {
    * });
    * ```
    */
-  runQuery(query: Query, options?: RunQueryOptions): Promise<RunQueryResponse>;
   runQuery(
-    query: Query,
+    query: Query | GqlQuery,
+    options?: RunQueryOptions,
+  ): Promise<RunQueryResponse>;
+  runQuery(
+    query: Query | GqlQuery,
     options: RunQueryOptions,
     callback: RunQueryCallback,
   ): void;
-  runQuery(query: Query, callback: RunQueryCallback): void;
+  runQuery(query: Query | GqlQuery, callback: RunQueryCallback): void;
   runQuery(
-    query: Query,
+    query: Query | GqlQuery,
     optionsOrCallback?: RunQueryOptions | RunQueryCallback,
     cb?: RunQueryCallback,
   ): void | Promise<RunQueryResponse> {
@@ -931,22 +1263,42 @@ class DatastoreRequest {
     const callback =
       typeof optionsOrCallback === 'function' ? optionsOrCallback : cb!;
 
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      try {
+        throwOnAmbientNamespaceErrors(this, [], query);
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      ambientTransaction.runQuery(query, options, callback);
+      return;
+    }
+
     let info: RunQueryInfo;
 
-    try {
-      this.runQueryStream(query, options)
-        .on('error', callback)
-        .on('info', info_ => {
-          info = info_;
-        })
-        .pipe(
-          concat((results: Entity[]) => {
-            callback(null, results, info);
-          }),
-        );
-    } catch (err: any) {
-      callback(err);
-    }
+    traceOperation(
+      'Datastore.runQuery',
+      getQueryAttributes(this, query),
+      callback,
+      callback => {
+        try {
+          this.runQueryStream(query, options)
+            .on('error', callback)
+            .on('info', info_ => {
+              info = info_;
+            })
+            .pipe(
+              concat((results: Entity[]) => {
+                callback(null, results, info);
+              }),
+            );
+        } catch (err: any) {
+          callback(err);
+        }
+      },
+      entities => arrify(entities).length,
+    );
   }
 
   /**
@@ -954,7 +1306,7 @@ class DatastoreRequest {
    *
    * See {@link Datastore#runQuery} for a list of all available options.
    *
-   * @param {Query} query A Query object
+   * @param {Query|GqlQuery} query A Query or GqlQuery object
    * @param {object} [options] Optional configuration.
    * @param {object} [options.gaxOptions] Request configuration options, outlined
    *     here: https://googleapis.github.io/gax-nodejs/global.html#CallOptions.
@@ -984,12 +1336,26 @@ class DatastoreRequest {
    *   });
    * ```
    */
-  runQueryStream(query: Query, options: RunQueryStreamOptions = {}): Transform {
+  runQueryStream(
+    query: Query | GqlQuery,
+    options: RunQueryStreamOptions = {},
+  ): Transform {
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      throwOnAmbientNamespaceErrors(this, [], query);
+      return ambientTransaction.runQueryStream(query, options);
+    }
     this.checkExpired();
     throwOnReadTimeAndConsistency(options);
-    query = extend(true, new Query(), query);
+    const originalQuery = query;
+    const gqlQuery = isGqlQuery(query) ? query : null;
+    query = gqlQuery || extend(true, new Query(), query);
     const sharedQueryOpts = this.getQueryOptions(query, options);
     throwOnTransactionErrors(this, sharedQueryOpts);
+    const propertyMask = getPropertyMask(options);
+    if (propertyMask) {
+      sharedQueryOpts.propertyMask = propertyMask;
+    }
     const makeRequest = (query: Query) => {
       let queryProto: QueryProto;
       try {
@@ -1000,9 +1366,26 @@ class DatastoreRequest {
         setImmediate(onResultSet, e as Error);
         return;
       }
+      sendRequest({query: queryProto});
+    };
+
+    const makeGqlRequest = (gqlQuery: GqlQuery) => {
+      let gqlQueryProto: google.datastore.v1.IGqlQuery;
+      try {
+        gqlQueryProto = gqlQuery.toProto();
+      } catch (e) {
+        setImmediate(onResultSet, e as Error);
+        return;
+      }
+      sendRequest({gqlQuery: gqlQueryProto});
+    };
 
+    const sendRequest = (
+      queryFields: Pick<RequestOptions, 'query' | 'gqlQuery'>,
+    ) => {
       const reqOpts: RequestOptions = sharedQueryOpts;
-      reqOpts.query = queryProto;
+      delete reqOpts.gqlQuery;
+      Object.assign(reqOpts, queryFields);
       this.request_(
         {
           client: 'DatastoreClient',
@@ -1017,6 +1400,9 @@ class DatastoreRequest {
     const onResultSet = (err?: Error | null, resp?: Entity) => {
       this.parseTransactionResponse(resp);
       if (err) {
+        if (err instanceof DatastoreError) {
+          err.query = originalQuery;
+        }
         stream.destroy(err);
         return;
       }
@@ -1064,6 +1450,26 @@ class DatastoreRequest {
           }
 
           // The query is "NOT_FINISHED". Get the rest of the results.
+          if (gqlQuery) {
+            // Continue from the parsed form of the GQL query, which the server
+            // returns alongside the first batch.
+            const queryProto = Object.assign({}, resp.query, {
+              startCursor: resp.batch.endCursor,
+              offset: Math.max(
+                (resp.query.offset || 0) - resp.batch.skippedResults,
+                0,
+              ),
+            });
+            if (resp.query.limit && resp.query.limit.value) {
+              queryProto.limit = {
+                value: resp.query.limit.value - resp.batch.entityResults.length,
+              };
+            }
+            sendRequest({query: queryProto});
+            return;
+          }
+
+          query = query as Query;
           const offset = query.offsetVal === -1 ? 0 : query.offsetVal;
 
           query
@@ -1084,7 +1490,11 @@ class DatastoreRequest {
 
     const stream = streamEvents(new Transform({objectMode: true}));
     stream.once('reading', () => {
-      makeRequest(query);
+      if (gqlQuery) {
+        makeGqlRequest(gqlQuery);
+      } else {
+        makeRequest(query as Query);
+      }
     });
     return stream;
   }
@@ -1133,11 +1543,11 @@ class DatastoreRequest {
   /**
    * Gets request options from a RunQueryStream options configuration
    *
-   * @param {Query} [query] A Query object
+   * @param {Query|GqlQuery} [query] A Query or GqlQuery object
    * @param {RunQueryStreamOptions} [options] The RunQueryStream options configuration
    */
   private getQueryOptions(
-    query: Query,
+    query: Query | GqlQuery,
     options: RunQueryStreamOptions = {},
   ): SharedQueryOptions {
     const sharedQueryOpts = this.getRequestOptions(options);
@@ -1181,6 +1591,38 @@ class DatastoreRequest {
     entities: Entities,
     callback?: SaveCallback,
   ): void | Promise<CommitResponse> {
+    const mergeInto = (transaction: Transaction) =>
+      Promise.all(
+        arrify(entities).map(async (objEntity: Entity) => {
+          const obj: Entity = DatastoreRequest.prepareEntityObject_(objEntity);
+          const [data] = await transaction.get(obj.key);
+          obj.method = 'upsert';
+          obj.data = Object.assign({}, data, obj.data);
+          transaction.save(obj);
+        }),
+      );
+
+    const ambientTransaction = getAmbientTransaction(this);
+    if (ambientTransaction) {
+      try {
+        throwOnAmbientNamespaceErrors(
+          this,
+          arrify(entities).map(
+            (objEntity: Entity) =>
+              DatastoreRequest.prepareEntityObject_(objEntity).key,
+          ),
+        );
+      } catch (err) {
+        callback!(err as Error);
+        return;
+      }
+      mergeInto(ambientTransaction).then(
+        () => callback!(null, {}),
+        err => callback!(err),
+      );
+      return;
+    }
+
     const transaction = this.datastore.transaction();
     transaction.run(async (err: any) => {
       if (err) {
@@ -1195,16 +1637,7 @@ class DatastoreRequest {
         return;
       }
       try {
-        await Promise.all(
-          arrify(entities).map(async (objEntity: Entity) => {
-            const obj: Entity =
-              DatastoreRequest.prepareEntityObject_(objEntity);
-            const [data] = await transaction.get(obj.key);
-            obj.method = 'upsert';
-            obj.data = Object.assign({}, data, obj.data);
-            transaction.save(obj);
-          }),
-        );
+        await mergeInto(transaction);
 
         const [response] = await transaction.commit();
         callback!(null, response);
@@ -1254,6 +1687,7 @@ class DatastoreRequest {
       reqOpts.transaction = this.id;
     }
     throwOnTransactionErrors(this, reqOpts);
+    throwOnNamespaceErrors(datastore, method, reqOpts);
     if (
       isTransaction &&
       (method === 'lookup' ||
@@ -1269,7 +1703,7 @@ class DatastoreRequest {
       }
     }
 
-    datastore.auth.getProjectId((err, projectId) => {
+    getProjectIdOf(datastore, (err, projectId) => {
       if (err) {
         callback!(err);
         return;
@@ -1288,6 +1722,19 @@ class DatastoreRequest {
           'google-cloud-resource-prefix': `projects/${projectId}`,
         },
       });
+      const middleware = datastore.middleware_;
+      if (middleware && middleware.length > 0) {
+        callback(
+          null,
+          wrapRequest(middleware, gaxClient!, {
+            client: clientName,
+            method,
+            reqOpts,
+            gaxOpts,
+          }),
+        );
+        return;
+      }
       const requestFn = gaxClient![method].bind(gaxClient, reqOpts, gaxOpts);
       callback(null, requestFn);
     });
@@ -1308,12 +1755,29 @@ class DatastoreRequest {
    */
   request_(config: RequestConfig, callback: RequestCallback): void;
   request_(config: RequestConfig, callback: RequestCallback): void {
+    const span = startRpcSpan(this, config);
     this.prepareGaxRequest_(config, (err: Error, requestFn: Function) => {
       if (err) {
+        endSpan(span, err);
         callback(err);
         return;
       }
-      requestFn(callback);
+      requestFn((err: Error | null, ...args: unknown[]) => {
+        if (err) {
+          err = toDatastoreError(err, {keys: getRequestKeys(config.reqOpts)});
+        }
+        endSpan(span, err);
+        const datastore = this.datastore;
+        if (config.method === 'commit' && datastore && datastore.cache_) {
+          // A failed commit may still have been applied, so its keys are
+          // removed from the cache as well.
+          void invalidateCache(datastore, getRequestKeys(config.reqOpts)).then(
+            () => callback(err, ...args),
+          );
+          return;
+        }
+        callback(err, ...args);
+      });
     });
   }
 
@@ -1337,6 +1801,8 @@ class DatastoreRequest {
     };
 
     stream.once('reading', () => {
+      const span = startRpcSpan(this, config);
+      stream.once('close', () => endSpan(span, stream.errored));
       this.prepareGaxRequest_(config, (err: Error, requestFn: Function) => {
         if (err) {
           stream.destroy(err);
@@ -1345,7 +1811,7 @@ class DatastoreRequest {
 
         gaxStream = requestFn();
         gaxStream
-          .on('error', stream.destroy.bind(stream))
+          .on('error', (err: Error) => stream.destroy(toDatastoreError(err)))
           .on('response', stream.emit.bind(stream, 'response'))
           .pipe(stream);
       });
@@ -1355,6 +1821,288 @@ class DatastoreRequest {
   }
 }
 
+/**
+ * Get the transaction bound to the current async context with
+ * {@link Datastore#withTransaction}. Only requests made through the Datastore
+ * client itself join it, not the ones made through a transaction or a
+ * snapshot.
+ *
+ * @param {DatastoreRequest} request The Datastore request object
+ * @returns {Transaction|undefined}
+ */
+export function getAmbientTransaction(
+  request: DatastoreRequest,
+): Transaction | undefined {
+  return request.datastore === request
+    ? request.datastore.transactionStorage_.getStore()
+    : undefined;
+}
+
+/**
+ * Get the ID of the project of the requests of a client. A view of another
+ * project, created by {@link Datastore#database}, shares the auth client of
+ * its parent, which doesn't know the project.
+ *
+ * @param {Datastore} datastore The client.
+ * @param {function} callback The callback function.
+ */
+export function getProjectIdOf(
+  datastore: Datastore,
+  callback: (err?: Error | null, projectId?: string | null) => void,
+) {
+  if (datastore.projectId_) {
+    process.nextTick(callback, null, datastore.projectId_);
+    return;
+  }
+  datastore.auth.getProjectId(callback);
+}
+
+/**
+ * Look up more keys than a single lookup accepts, in chunks. The entities are
+ * pushed to the stream in the order of the chunks once all of them are found.
+ *
+ * @param {DatastoreRequest} request The Datastore request object.
+ * @param {Key[]} keys The keys.
+ * @param {object} options The options of the lookups.
+ * @returns {stream}
+ */
+function readInChunks(
+  request: DatastoreRequest,
+  keys: entity.Key[],
+  options: CreateReadStreamOptions,
+): Transform {
+  const stream = streamEvents(new Transform({objectMode: true}));
+  stream.once('reading', () => {
+    runChunks(
+      splitIntoChunks(keys, MAX_LOOKUP_KEYS),
+      chunk => chunk,
+      chunk =>
+        new Promise<Entity[]>((resolve, reject) => {
+          request
+            .createReadStream(chunk, options)
+            .on('error', reject)
+            .on('missing', (missing: entity.Key[]) =>
+              stream.emit('missing', missing),
+            )
+            .pipe(concat(resolve));
+        }),
+    ).then(
+      results =>
+        split(([] as Entity[]).concat(...results), stream)
+          .then(streamEnded => {
+            if (!streamEnded) {
+              stream.push(null);
+            }
+          })
+          .catch(err => {
+            throw err;
+          }),
+      err => stream.destroy(err),
+    );
+  });
+  return stream;
+}
+
+/**
+ * Commit mutations outside of a transaction. More mutations than a single
+ * commit accepts are committed in chunks, and the responses of the chunks
+ * are merged, in the order of the mutations. The commit time of the merged
+ * response is the latest one, when all the chunks are committed.
+ *
+ * As the chunks are committed concurrently, the order of two writes of the
+ * same entity in different chunks is unknown, so they are rejected before
+ * committing any chunk, like a single commit rejects them.
+ *
+ * @param {DatastoreRequest} request The Datastore request object.
+ * @param {object[]} mutations The mutations.
+ * @param {Key[]} keys The keys of the mutations.
+ * @param {object} gaxOptions The options of the commits.
+ * @param {function} callback The callback function.
+ */
+export function commitInChunks(
+  request: DatastoreRequest,
+  mutations: google.datastore.v1.IMutation[],
+  keys: entity.Key[],
+  gaxOptions: CallOptions | undefined,
+  callback: CommitCallback,
+) {
+  const commit = (
+    mutations: google.datastore.v1.IMutation[],
+    callback: CommitCallback,
+  ) =>
+    request.request_(
+      {
+        client: 'DatastoreClient',
+        method: 'commit',
+        reqOpts: {mutations},
+        gaxOpts: gaxOptions,
+      },
+      callback,
+    );
+
+  if (mutations.length <= MAX_COMMIT_MUTATIONS) {
+    commit(mutations, callback);
+    return;
+  }
+
+  const keyStrings = new Set<string>();
+  for (const key of keys.filter(entity.isKeyComplete)) {
+    const keyString = getKeyString(key);
+    if (keyStrings.has(keyString)) {
+      callback(
+        new Error(
+          `The key ${JSON.stringify(key.path)} can only be written once ` +
+            'outside of a transaction.',
+        ),
+      );
+      return;
+    }
+    keyStrings.add(keyString);
+  }
+
+  const writes = mutations.map((mutation, index) => ({
+    mutation,
+    key: keys[index],
+  }));
+  runChunks(
+    splitIntoChunks(writes, MAX_COMMIT_MUTATIONS),
+    chunk => chunk.map(write => write.key),
+    chunk =>
+      new Promise<CommitApiResponse>((resolve, reject) =>
+        commit(
+          chunk.map(write => write.mutation),
+          (err, resp) => {
+            if (err) {
+              reject(err);
+              return;
+            }
+            // Complete the keys of the inserts right away, so that the keys
+            // of a failed call say which entities were written.
+            arrify(resp!.mutationResults).forEach((result, index) => {
+              const key = chunk[index].key;
+              if (result.key && !entity.isKeyComplete(key)) {
+                key.id = entity.keyFromKeyProto(result.key).id;
+              }
+            });
+            resolve(resp!);
+          },
+        ),
+      ),
+  ).then(
+    responses =>
+      callback(null, {
+        mutationResults: ([] as MutationResult[]).concat(
+          ...responses.map(resp => arrify(resp.mutationResults)),
+        ),
+        indexUpdates: responses.reduce(
+          (count, resp) => count + (resp.indexUpdates || 0),
+          0,
+        ),
+        commitTime: responses
+          .map(resp => resp.commitTime)
+          .reduce((latest, commitTime) =>
+            commitTime && (!latest || compareTimestamps(commitTime, latest) > 0)
+              ? commitTime
+              : latest,
+          ),
+      }),
+    err => callback(err),
+  );
+}
+
+/**
+ * Compare two timestamp protos, e.g. to sort them.
+ *
+ * @param {object} a The first timestamp.
+ * @param {object} b The second timestamp.
+ * @returns {number} A negative number if `a` is earlier than `b`, a positive
+ *     one if it is later, and 0 if they are equal.
+ */
+function compareTimestamps(a: ITimestamp, b: ITimestamp): number {
+  return (
+    Number(a.seconds || 0) - Number(b.seconds || 0) ||
+    (a.nanos || 0) - (b.nanos || 0)
+  );
+}
+
+/**
+ * Get the keys of the entities a request reads or writes, to report them in
+ * its errors.
+ *
+ * @param {object} [reqOpts] The request.
+ * @returns {Key[]}
+ */
+function getRequestKeys(reqOpts?: RequestOptions): entity.Key[] {
+  return getRequestKeyProtos(reqOpts).map(keyProto =>
+    // The keys of a request don't say which of `id` and `name` they use,
+    // unlike the keys of a response.
+    entity.keyFromKeyProto({
+      partitionId: keyProto.partitionId,
+      path: keyProto.path!.map(element =>
+        Object.assign({}, element, {
+          idType: element.name ? 'name' : element.id ? 'id' : undefined,
+        }),
+      ),
+    }),
+  );
+}
+
+/**
+ * Get the key protos of the entities a request reads or writes.
+ *
+ * @param {object} [reqOpts] The request.
+ * @returns {object[]}
+ */
+function getRequestKeyProtos(reqOpts?: RequestOptions): KeyProto[] {
+  if (!reqOpts) {
+    return [];
+  }
+  const keyProtos: Array<KeyProto | null | undefined> = reqOpts.keys
+    ? reqOpts.keys
+    : arrify(reqOpts.mutations).map(
+        mutation =>
+          mutation.delete ||
+          (mutation.insert || mutation.update || mutation.upsert || {}).key,
+      );
+  return keyProtos.filter(keyProto => keyProto && keyProto.path) as KeyProto[];
+}
+
+/**
+ * Start the span of an RPC, as a child of the span of the operation making it.
+ *
+ * @param {DatastoreRequest} request The Datastore request object
+ * @param {object} config The configuration of the RPC.
+ * @returns {Span}
+ */
+function startRpcSpan(request: DatastoreRequest, config: RequestConfig) {
+  return startSpan(
+    `${config.client}.${config.method}`,
+    Object.assign(getRequestAttributes(request), {
+      [SpanAttribute.RPC_SERVICE]: config.client,
+      [SpanAttribute.RPC_METHOD]: config.method,
+    }),
+    SpanKind.CLIENT,
+  );
+}
+
+/**
+ * Get the span attributes of a query: the kinds and namespace it reads.
+ *
+ * @param {DatastoreRequest} request The Datastore request object
+ * @param {Query|GqlQuery} query The query.
+ * @returns {object}
+ */
+function getQueryAttributes(
+  request: DatastoreRequest,
+  query: Query | GqlQuery,
+) {
+  const attributes = getRequestAttributes(request, query.namespace);
+  if (!isGqlQuery(query) && query.kinds) {
+    attributes[SpanAttribute.KIND] = getKinds(query.kinds);
+  }
+  return attributes;
+}
+
 /**
  * Check to see if a request is a Transaction
  *
@@ -1365,6 +2113,19 @@ function isTransaction(request: DatastoreRequest): request is Transaction {
   return request instanceof Transaction;
 }
 
+/**
+ * Check to see if an argument to delete is an entry with preconditions rather
+ * than a key.
+ *
+ * @param {Key|object} keyOrEntry The key or entry to check.
+ *
+ */
+function isDeleteEntry(
+  keyOrEntry: entity.Key | DeleteEntry,
+): keyOrEntry is DeleteEntry {
+  return entity.isDsKey((keyOrEntry as DeleteEntry).key);
+}
+
 /**
  * Throw an error if read options are not properly specified.
  *
@@ -1390,6 +2151,99 @@ function throwOnTransactionErrors(
   }
 }
 
+/**
+ * Throw an error if a request of a client restricted to its namespace, see
+ * {@link Datastore#withNamespace}, reads or writes in another namespace.
+ *
+ * @param {Datastore} datastore The Datastore client of the request.
+ * @param {string} method The method of the request.
+ * @param {object} reqOpts The request.
+ */
+function throwOnNamespaceErrors(
+  datastore: Datastore,
+  method: string,
+  reqOpts: RequestOptions,
+) {
+  if (!datastore.namespaceView_ || !datastore.namespaceView_.strict) {
+    return;
+  }
+  // A query without a partition runs in the default namespace.
+  if (
+    reqOpts.partitionId ||
+    method === 'runQuery' ||
+    method === 'runAggregationQuery'
+  ) {
+    checkNamespace(
+      datastore,
+      reqOpts.partitionId && reqOpts.partitionId.namespaceId,
+    );
+  }
+  getRequestKeyProtos(reqOpts).forEach(keyProto =>
+    checkNamespace(
+      datastore,
+      keyProto.partitionId && keyProto.partitionId.namespaceId,
+    ),
+  );
+}
+
+/**
+ * Throw an error if a client restricted to its namespace, see
+ * {@link Datastore#withNamespace}, passes keys or a query of another namespace
+ * to the transaction of {@link Datastore#withTransaction}. That transaction
+ * belongs to the client the view was created from, which doesn't check its
+ * requests.
+ *
+ * @param {DatastoreRequest} request The Datastore request object
+ * @param {Key[]} keys The keys read or written.
+ * @param {Query|GqlQuery} [query] The query run.
+ */
+export function throwOnAmbientNamespaceErrors(
+  request: DatastoreRequest,
+  keys: entity.Key[],
+  query?: Query | GqlQuery,
+) {
+  keys.forEach(key => checkNamespace(request.datastore, key.namespace));
+  if (query) {
+    checkNamespace(request.datastore, query.namespace);
+  }
+}
+
+/**
+ * Throw an error if a client restricted to its namespace, see
+ * {@link Datastore#withNamespace}, is used with another namespace.
+ *
+ * @param {Datastore} datastore The Datastore client.
+ * @param {string} [namespace] The namespace it is used with.
+ */
+export function checkNamespace(
+  datastore: Datastore,
+  namespace?: string | null,
+) {
+  if (
+    datastore.namespaceView_ &&
+    datastore.namespaceView_.strict &&
+    (namespace || '') !== (datastore.namespace || '')
+  ) {
+    throw new Error(
+      `The namespace "${namespace || ''}" is not the namespace ` +
+        `"${datastore.namespace || ''}" this client is restricted to.`,
+    );
+  }
+}
+
+/**
+ * Convert a read time in milliseconds since the epoch to a timestamp proto.
+ *
+ * @param {number} readTime The read time in milliseconds.
+ * @returns {object}
+ */
+function getReadTimeProto(readTime: number): ITimestamp {
+  return {
+    seconds: Math.floor(readTime / 1000),
+    nanos: (readTime % 1000) * 1e6,
+  };
+}
+
 /**
  * This function gets transaction request options used for defining a
  * request to create a new transaction on the server.
@@ -1404,14 +2258,17 @@ export function getTransactionRequest(
   // If transactionOptions are provide then they will be used.
   // Otherwise, options passed into this function are used and when absent
   // options that exist on Transaction are used.
+  const readOnly = transaction.readTime
+    ? {readTime: getReadTimeProto(transaction.readTime)}
+    : {};
   return options.transactionOptions // If transactionOptions is specified:
     ? options.transactionOptions.readOnly // Use readOnly on transactionOptions
-      ? {readOnly: {}}
+      ? {readOnly}
       : options.transactionOptions.id // Use retry transaction if specified:
         ? {readWrite: {previousTransaction: options.transactionOptions.id}}
         : {}
     : options.readOnly || transaction.readOnly // If transactionOptions not set:
-      ? {readOnly: {}} // Create a readOnly transaction if readOnly option set
+      ? {readOnly} // Create a readOnly transaction if readOnly option set
       : options.transactionId || transaction.id
         ? {
             // Create readWrite transaction with a retry transaction set
@@ -1440,23 +2297,51 @@ export interface AllocateIdsOptions {
   allocations?: number;
   gaxOptions?: CallOptions;
 }
-export type CreateReadStreamOptions = RunQueryOptions;
+export interface CreateReadStreamOptions extends RunQueryOptions {
+  alignResults?: boolean;
+}
 export interface GetCallback {
-  (err?: Error | null, entity?: Entities): void;
+  (err?: Error | null, entity?: Entities, info?: GetInfo): void;
+}
+export interface GetInfo {
+  missing: entity.Key[];
 }
-export type GetResponse = [Entities];
+export type GetResponse = [Entities, GetInfo?];
 export interface Mutation {
-  [key: string]: EntityProto;
+  [key: string]:
+    | EntityProto
+    | google.datastore.v1.IPropertyTransform[]
+    | google.datastore.v1.IPropertyMask;
 }
 export interface PrepareEntityObject {
   [key: string]: google.datastore.v1.Key | undefined;
 }
-export interface PrepareEntityObjectResponse {
+export interface MutationPreconditions {
+  ifVersion?: number | string;
+  ifUpdateTime?: Date | entity.Timestamp | ITimestamp;
+}
+export interface DeleteEntry extends MutationPreconditions {
+  key: entity.Key;
+}
+export interface PatchEntry extends MutationPreconditions {
+  key: entity.Key;
+  data?: {[path: string]: Entity};
+  deleteProperties?: string | string[];
+  method?: 'update' | 'upsert';
+  excludeFromIndexes?: string[];
+  excludeLargeProperties?: boolean;
+}
+export interface PatchOptions extends Omit<PatchEntry, 'key' | 'data'> {
+  gaxOptions?: CallOptions;
+}
+export interface PrepareEntityObjectResponse extends MutationPreconditions {
   key?: entity.Key;
   data?: SaveDataValue;
   excludeFromIndexes?: string[];
   excludeLargeProperties?: boolean;
   method?: string;
+  transforms?: {[property: string]: PropertyTransform};
+  propertyMask?: string[];
 }
 export interface RequestCallback {
   (
@@ -1483,6 +2368,7 @@ export interface RequestConfig {
 export interface SharedQueryOptions {
   databaseId?: string;
   explainOptions?: ExplainOptions;
+  propertyMask?: google.datastore.v1.IPropertyMask;
   projectId?: string;
   partitionId?: google.datastore.v1.IPartitionId | null;
   readOptions?: {
@@ -1504,22 +2390,37 @@ export interface RequestOptions extends SharedQueryOptions {
   transaction?: string | null | Uint8Array;
   mode?: string;
   query?: QueryProto;
+  gqlQuery?: google.datastore.v1.IGqlQuery;
   filter?: string;
   indexId?: string;
   entityFilter?: google.datastore.admin.v1.IEntityFilter;
 }
 export interface RunAggregationQueryRequest extends SharedQueryOptions {
-  aggregationQuery: AggregationQueryOptions;
+  aggregationQuery?: AggregationQueryOptions;
+  gqlQuery?: google.datastore.v1.IGqlQuery;
 }
 export interface AggregationQueryOptions {
   nestedQuery: QueryProto;
   aggregations: Array<any>;
 }
 export type RunQueryStreamOptions = RunQueryOptions;
+export interface MutationResult extends google.datastore.v1.IMutationResult {
+  transforms?: {[property: string]: Entity};
+}
+export interface WriteResult {
+  key: entity.Key;
+  version?: string;
+  createTime?: entity.Timestamp;
+  updateTime?: entity.Timestamp;
+}
+export interface CommitApiResponse extends google.datastore.v1.ICommitResponse {
+  mutationResults?: MutationResult[] | null;
+  writeResults?: WriteResult[];
+}
 export interface CommitCallback {
-  (err?: Error | null, resp?: google.datastore.v1.ICommitResponse): void;
+  (err?: Error | null, resp?: CommitApiResponse): void;
 }
-export type CommitResponse = [google.datastore.v1.ICommitResponse];
+export type CommitResponse = [CommitApiResponse];
 export type SaveCallback = CommitCallback;
 export type SaveResponse = CommitResponse;
 export type DeleteCallback = CommitCallback;
@@ -0,0 +1,262 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {promisifyAll} from '@google-cloud/promisify';
+import {Transform} from 'stream';
+
+import {Datastore} from '.';
+import {AggregateQuery} from './aggregate';
+import {Entities} from './entity';
+import {GqlQuery, GqlQueryOptions} from './gql-query';
+import {Query, RunQueryOptions, RunQueryResponse} from './query';
+import {
+  CreateReadStreamOptions,
+  DatastoreRequest,
+  RequestCallback,
+  RunAggregationQueryCallback,
+  RunQueryStreamOptions,
+} from './request';
+
+/**
+ * A read-only view of the database as it was at a point in time. Every
+ * lookup and query made through a snapshot reads at the snapshot's read
+ * time, which makes the results of several reads consistent with each other.
+ *
+ * Create a snapshot with {@link Datastore#snapshot}.
+ *
+ * @class
+ * @extends {Request}
+ * @param {Datastore} datastore A Datastore instance.
+ * @param {Date|number} readTime The time to read at, as a date or in
+ *     milliseconds since the epoch.
+ *
+ * @example
+ * ```
+ * const {Datastore} = require('@google-cloud/datastore');
+ * const datastore = new Datastore();
+ * const snapshot = datastore.snapshot(new Date(Date.now() - 60 * 1000));
+ *
+ * const [tasks] = await snapshot.runQuery(snapshot.createQuery('Task'));
+ * const [[{total}]] = await snapshot.runAggregationQuery(
+ *   snapshot.createAggregationQuery(snapshot.createQuery('Task')).count('total')
+ * );
+ * ```
+ */
+class Snapshot extends DatastoreRequest {
+  namespace?: string;
+  readTime: number;
+
+  constructor(datastore: Datastore, readTime: Date | number) {
+    super();
+    const millis = readTime instanceof Date ? readTime.getTime() : readTime;
+    if (typeof millis !== 'number' || !Number.isFinite(millis)) {
+      throw new Error('A snapshot requires a valid read time.');
+    }
+
+    /**
+     * @name Snapshot#datastore
+     * @type {Datastore}
+     */
+    this.datastore = datastore;
+
+    /**
+     * @name Snapshot#namespace
+     * @type {string}
+     */
+    this.namespace = datastore.namespace;
+
+    /**
+     * The read time of the snapshot, in milliseconds since the epoch.
+     *
+     * @name Snapshot#readTime
+     * @type {number}
+     */
+    this.readTime = millis;
+  }
+
+  /**
+   * Create a query for the current snapshot. The query's namespace will be the
+   * namespace of the snapshot. See {@link Datastore#createQuery}.
+   *
+   * @param {string} [namespace] Namespace.
+   * @param {string} kind The kind to query.
+   * @returns {Query}
+   */
+  createQuery(kind?: string): Query;
+  createQuery(kind?: string[]): Query;
+  createQuery(namespace: string, kind: string): Query;
+  createQuery(namespace: string, kind: string[]): Query;
+  createQuery(
+    namespaceOrKind?: string | string[],
+    kind?: string | string[],
+  ): Query {
+    return this.datastore.createQuery.call(
+      this,
+      namespaceOrKind as string,
+      kind as string[],
+    );
+  }
+
+  /**
+   * Create a GQL query for the current snapshot. The query's namespace will be
+   * the namespace of the snapshot. See {@link Datastore#createGqlQuery} for
+   * the available options.
+   *
+   * @param {string} [namespace] Namespace.
+   * @param {string} queryString The GQL query string.
+   * @param {object} [options] Configuration object.
+   * @returns {GqlQuery}
+   */
+  createGqlQuery(queryString: string, options?: GqlQueryOptions): GqlQuery;
+  createGqlQuery(
+    namespace: string,
+    queryString: string,
+    options?: GqlQueryOptions,
+  ): GqlQuery;
+  createGqlQuery(
+    namespaceOrQueryString: string,
+    queryStringOrOptions?: string | GqlQueryOptions,
+    options?: GqlQueryOptions,
+  ): GqlQuery {
+    return this.datastore.createGqlQuery.call(
+      this,
+      namespaceOrQueryString,
+      queryStringOrOptions as string,
+      options,
+    );
+  }
+
+  /**
+   * Create an aggregation query from the query specified. See
+   * {@link Datastore#createAggregationQuery}.
+   *
+   * @param {Query} query A Query object
+   */
+  createAggregationQuery(query: Query): AggregateQuery {
+    return this.datastore.createAggregationQuery.call(this, query);
+  }
+
+  /**
+   * Retrieve the entities identified with the specified key(s) as they were
+   * at the read time of the snapshot. See {@link Datastore#createReadStream}.
+   *
+   * @param {Key|Key[]} keys Datastore key object(s).
+   * @param {object} [options] Optional configuration.
+   * @returns {stream}
+   */
+  createReadStream(
+    keys: Entities,
+    options: CreateReadStreamOptions = {},
+  ): Transform {
+    return super.createReadStream(keys, this.getReadOptions_(options));
+  }
+
+  /**
+   * Run a query as it would have run at the read time of the snapshot. See
+   * {@link Datastore#runQueryStream}.
+   *
+   * @param {Query|GqlQuery} query Query object.
+   * @param {object} [options] Optional configuration.
+   * @returns {stream}
+   */
+  runQueryStream(
+    query: Query | GqlQuery,
+    options: RunQueryStreamOptions = {},
+  ): Transform {
+    return super.runQueryStream(query, this.getReadOptions_(options));
+  }
+
+  /**
+   * Run an aggregation query as it would have run at the read time of the
+   * snapshot. See {@link Datastore#runAggregationQuery}.
+   *
+   * @param {AggregateQuery|GqlQuery} query AggregateQuery or GqlQuery object.
+   * @param {object} [options] Optional configuration.
+   * @param {function} [callback] The callback function. If omitted, a promise
+   *     is returned.
+   */
+  runAggregationQuery(
+    query: AggregateQuery | GqlQuery,
+    options?: RunQueryOptions,
+  ): Promise<RunQueryResponse>;
+  runAggregationQuery(
+    query: AggregateQuery | GqlQuery,
+    options: RunQueryOptions,
+    callback: RunAggregationQueryCallback,
+  ): void;
+  runAggregationQuery(
+    query: AggregateQuery | GqlQuery,
+    callback: RunAggregationQueryCallback,
+  ): void;
+  runAggregationQuery(
+    query: AggregateQuery | GqlQuery,
+    optionsOrCallback?: RunQueryOptions | RunAggregationQueryCallback,
+    cb?: RequestCallback,
+  ): void | Promise<RunQueryResponse> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    const callback =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : cb!;
+    super.runAggregationQuery(query, this.getReadOptions_(options), callback);
+  }
+
+  /**
+   * A snapshot is read-only, entities can't be deleted through it.
+   *
+   * @throws {Error}
+   */
+  delete(): never {
+    throw new Error('A snapshot is read-only.');
+  }
+
+  /**
+   * A snapshot is read-only, entities can't be merged through it.
+   *
+   * @throws {Error}
+   */
+  merge(): never {
+    throw new Error('A snapshot is read-only.');
+  }
+
+  /**
+   * Add the read time of the snapshot to the options of a read.
+   *
+   * @private
+   */
+  private getReadOptions_<T extends RunQueryOptions>(options: T): T {
+    return Object.assign({}, options, {readTime: this.readTime});
+  }
+}
+
+/*! Developer Documentation
+ *
+ * All async methods (except for streams) will return a Promise in the event
+ * that a callback is omitted.
+ */
+promisifyAll(Snapshot, {
+  exclude: [
+    'createAggregationQuery',
+    'createGqlQuery',
+    'createQuery',
+    'delete',
+    'merge',
+  ],
+});
+
+/**
+ * Reference to the {@link Snapshot} class.
+ * @name module:@google-cloud/datastore.Snapshot
+ * @see Snapshot
+ */
+export {Snapshot};
@@ -0,0 +1,179 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Attributes,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  trace,
+} from '@opentelemetry/api';
+import {entity} from './entity';
+import {google} from '../protos/protos';
+import {DatastoreRequest} from './request';
+
+/**
+ * The name of the tracer creating the spans of this library. The spans are
+ * only recorded when the application registers a tracer provider; without
+ * one, the OpenTelemetry API hands out spans which do nothing.
+ */
+export const TRACER_NAME = '@google-cloud/datastore';
+
+/**
+ * The attributes set on the spans.
+ */
+export const SpanAttribute = {
+  KIND: 'datastore.kind',
+  NAMESPACE: 'datastore.namespace',
+  DATABASE_ID: 'datastore.database_id',
+  KEY_COUNT: 'datastore.key_count',
+  RESULT_COUNT: 'datastore.result_count',
+  RPC_METHOD: 'rpc.method',
+  RPC_SERVICE: 'rpc.service',
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Callback = (err: Error | null, ...args: any[]) => void;
+
+/**
+ * Start a span, as a child of the active span if there is one.
+ *
+ * @private
+ */
+export function startSpan(
+  name: string,
+  attributes: Attributes = {},
+  kind = SpanKind.INTERNAL,
+): Span {
+  return trace.getTracer(TRACER_NAME).startSpan(name, {attributes, kind});
+}
+
+/**
+ * End a span, recording the error of the operation if there is one.
+ *
+ * @private
+ */
+export function endSpan(span: Span, err?: Error | null) {
+  if (err) {
+    span.recordException(err);
+    span.setStatus({code: SpanStatusCode.ERROR, message: err.message});
+  }
+  span.end();
+}
+
+/**
+ * Trace an operation reporting its result to a callback. `fn` runs with a
+ * new span as the active span, so the RPCs it makes become its children, and
+ * the span ends when the callback `fn` is given is called.
+ *
+ * @private
+ *
+ * @param {string} name The name of the span.
+ * @param {object} attributes The attributes of the span.
+ * @param {function} callback The callback of the operation.
+ * @param {function} fn The operation, called with the callback to use.
+ * @param {function} [countResults] Count the results of the operation, given
+ *     the arguments of a successful callback.
+ */
+export function traceOperation<C extends Callback>(
+  name: string,
+  attributes: Attributes,
+  callback: C,
+  fn: (callback: C) => void,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  countResults?: (...args: any[]) => number,
+): void {
+  const span = startSpan(name, attributes);
+  let ended = false;
+  const tracedCallback = ((err: Error | null, ...args: unknown[]) => {
+    if (!ended) {
+      ended = true;
+      if (!err && countResults) {
+        span.setAttribute(SpanAttribute.RESULT_COUNT, countResults(...args));
+      }
+      endSpan(span, err);
+    }
+    callback(err, ...args);
+  }) as C;
+  context.with(trace.setSpan(context.active(), span), () => fn(tracedCallback));
+}
+
+/**
+ * Get the attributes describing where a request reads or writes: its
+ * database and namespace.
+ *
+ * @private
+ */
+export function getRequestAttributes(
+  request: DatastoreRequest,
+  namespace?: string | null,
+): Attributes {
+  const attributes: Attributes = {};
+  const databaseId =
+    request.datastore &&
+    request.datastore.options &&
+    request.datastore.options.databaseId;
+  if (databaseId) {
+    attributes[SpanAttribute.DATABASE_ID] = databaseId;
+  }
+  namespace = namespace || (request as {namespace?: string}).namespace;
+  if (namespace) {
+    attributes[SpanAttribute.NAMESPACE] = namespace;
+  }
+  return attributes;
+}
+
+/**
+ * Get the attributes describing the keys an operation reads or writes.
+ *
+ * @private
+ */
+export function getKeyAttributes(
+  request: DatastoreRequest,
+  keys: entity.Key[],
+): Attributes {
+  const attributes = getRequestAttributes(
+    request,
+    keys.length > 0 && keys[0] ? keys[0].namespace : undefined,
+  );
+  attributes[SpanAttribute.KIND] = getKinds(keys.map(key => key && key.kind));
+  attributes[SpanAttribute.KEY_COUNT] = keys.length;
+  return attributes;
+}
+
+/**
+ * Get the attributes describing the entities an export or import copies.
+ *
+ * @private
+ */
+export function getEntityFilterAttributes(
+  request: DatastoreRequest,
+  entityFilter: google.datastore.admin.v1.IEntityFilter,
+): Attributes {
+  const attributes = getRequestAttributes(request);
+  if (entityFilter.kinds) {
+    attributes[SpanAttribute.KIND] = getKinds(entityFilter.kinds);
+  }
+  return attributes;
+}
+
+/**
+ * Get the kinds of an operation once each, in the order they first appear.
+ *
+ * @private
+ */
+export function getKinds(kinds: Array<string | null | undefined>): string[] {
+  return Array.from(new Set(kinds.filter(kind => !!kind) as string[]));
+}
@@ -28,21 +28,42 @@ import {
   RunQueryResponse,
 } from './query';
 import {
+  CommitApiResponse,
   CommitCallback,
   CommitResponse,
   CreateReadStreamOptions,
   DatastoreRequest,
   GetCallback,
   GetResponse,
+  getProjectIdOf,
   getTransactionRequest,
+  PatchEntry,
+  PatchOptions,
   PrepareEntityObjectResponse,
   RequestCallback,
+  RequestConfig,
   transactionExpiredError,
   TransactionState,
 } from './request';
 import {AggregateQuery} from './aggregate';
+import {GqlQuery, GqlQueryOptions} from './gql-query';
 import {Mutex} from 'async-mutex';
 import arrify = require('arrify');
+import * as extend from 'extend';
+import {Transform} from 'stream';
+import {buildPatchEntity} from './utils/entity/buildPatchEntity';
+import {buildPropertyTransforms} from './utils/entity/buildPropertyTransforms';
+import {getKeyString} from './utils/entity/getKeyString';
+import {MAX_COMMIT_MUTATIONS} from './chunks';
+import {TransactionExpiredError} from './errors';
+import {
+  getKeyAttributes,
+  getRequestAttributes,
+  traceOperation,
+} from './telemetry';
+
+// The limit of the API on the size of a single commit.
+const MAX_COMMIT_BYTES = 10 * 1024 * 1024;
 
 /*
  * This type matches the value returned by the promise in the
@@ -77,10 +98,17 @@ interface BeginAsyncResponse {
 class Transaction extends DatastoreRequest {
   namespace?: string;
   readOnly: boolean;
+  readTime?: number;
+  readYourWrites: boolean;
+  duplicateKeys: DuplicateKeysMode;
+  idleTimeoutMillis?: number;
   request: Function;
   modifiedEntities_: ModifiedEntities;
   skipCommit?: boolean;
   #mutex = new Mutex();
+  #idleTimer?: NodeJS.Timeout;
+  #commitHooks: CommitHook[] = [];
+  #rollbackHooks: RollbackHook[] = [];
   constructor(datastore: Datastore, options?: TransactionOptions) {
     super();
     /**
@@ -99,6 +127,20 @@ class Transaction extends DatastoreRequest {
 
     this.id = options.id;
     this.readOnly = options.readOnly === true;
+    if (options.readTime !== undefined) {
+      if (!this.readOnly) {
+        throw new Error(
+          'A read time can only be used with a read-only transaction.',
+        );
+      }
+      this.readTime =
+        options.readTime instanceof Date
+          ? options.readTime.getTime()
+          : options.readTime;
+    }
+    this.readYourWrites = options.readYourWrites === true;
+    this.duplicateKeys = options.duplicateKeys || 'allow';
+    this.idleTimeoutMillis = options.idleTimeoutMillis;
 
     this.request = datastore.request_.bind(datastore);
 
@@ -182,16 +224,24 @@ class Transaction extends DatastoreRequest {
     const gaxOptions =
       typeof gaxOptionsOrCallback === 'object' ? gaxOptionsOrCallback : {};
     if (this.state === TransactionState.EXPIRED) {
-      callback(new Error(transactionExpiredError));
+      callback(new TransactionExpiredError(transactionExpiredError));
       return;
     }
-    // This ensures that the transaction is started before calling runCommit
-    this.#withBeginTransaction(
-      gaxOptions,
-      () => {
-        void this.#runCommit(gaxOptions, callback);
-      },
+    traceOperation(
+      'Transaction.commit',
+      getKeyAttributes(this, this.modifiedEntities_.map(getModifiedKey)),
       callback,
+      callback => {
+        // This ensures that the transaction is started before calling runCommit
+        this.#withBeginTransaction(
+          gaxOptions,
+          () => {
+            void this.#runCommit(gaxOptions, callback);
+          },
+          callback,
+        );
+      },
+      resp => arrify(resp && resp.mutationResults).length,
     );
   }
 
@@ -275,6 +325,35 @@ class Transaction extends DatastoreRequest {
     );
   }
 
+  /**
+   * Create a GQL query for the current transaction. The query's namespace will
+   * be the namespace of the transaction. See {@link Datastore#createGqlQuery}
+   * for the available options.
+   *
+   * @param {string} [namespace] Namespace.
+   * @param {string} queryString The GQL query string.
+   * @param {object} [options] Configuration object.
+   * @returns {GqlQuery}
+   */
+  createGqlQuery(queryString: string, options?: GqlQueryOptions): GqlQuery;
+  createGqlQuery(
+    namespace: string,
+    queryString: string,
+    options?: GqlQueryOptions,
+  ): GqlQuery;
+  createGqlQuery(
+    namespaceOrQueryString: string,
+    queryStringOrOptions?: string | GqlQueryOptions,
+    options?: GqlQueryOptions,
+  ): GqlQuery {
+    return this.datastore.createGqlQuery.call(
+      this,
+      namespaceOrQueryString,
+      queryStringOrOptions as string,
+      options,
+    );
+  }
+
   /**
    * Create an aggregation query from the query specified. See {module:datastore/query} for all
    * of the available methods.
@@ -324,12 +403,13 @@ class Transaction extends DatastoreRequest {
     arrify(entities).forEach((ent: Entity) => {
       this.modifiedEntities_.push({
         entity: {
-          key: ent,
+          key: entity.isDsKey(ent.key) ? ent.key : ent,
         },
         method: 'delete',
         args: [ent],
       });
     });
+    this.#resetIdleTimer();
   }
 
   /**
@@ -337,6 +417,9 @@ class Transaction extends DatastoreRequest {
    * has not been started yet then the transaction is started before the
    * get call is made.
    *
+   * With `readYourWrites`, the entities reflect the writes queued in the
+   * transaction. See {@link Transaction#createReadStream}.
+   *
    * @param {Key|Key[]} keys Datastore key object(s).
    * @param {object} [options] Optional configuration.
    * @param {function} callback The callback function.
@@ -369,6 +452,101 @@ class Transaction extends DatastoreRequest {
     });
   }
 
+  /**
+   * Retrieve the entities identified with the specified key(s) in the current
+   * transaction. See {@link Datastore#createReadStream}.
+   *
+   * If the transaction was created with `readYourWrites`, the entities
+   * reflect the saves, patches and deletes queued in the transaction so far,
+   * the last one queued for a key winning, like at commit. Deleted entities
+   * are left out of the results. Entities that are fully written by the
+   * transaction are not looked up. Properties changed by a transform, e.g.
+   * {@link Datastore.increment}, keep their stored value, as transforms are
+   * only applied by the server at commit. The `missing` event then reports
+   * the entities deleted by the transaction, and not the ones it creates.
+   *
+   * @param {Key|Key[]} keys Datastore key object(s).
+   * @param {object} [options] Optional configuration.
+   * @returns {stream}
+   */
+  createReadStream(
+    keys: Entities,
+    options: CreateReadStreamOptions = {},
+  ): Transform {
+    const requestedKeys = arrify(keys) as entity.Key[];
+    if (!this.readYourWrites || requestedKeys.length === 0) {
+      return super.createReadStream(keys, options);
+    }
+
+    const pendingWrites = this.#getPendingWrites();
+    const keysToLookup: entity.Key[] = [];
+    const writesToApply = new Map<string, Entity>();
+    const writtenEntities: Entity[] = [];
+    const missingKeys: entity.Key[] = [];
+    requestedKeys.forEach(key => {
+      const keyString = getKeyString(key);
+      if (!pendingWrites.has(keyString)) {
+        keysToLookup.push(key);
+        return;
+      }
+      const entityObject = pendingWrites.get(keyString);
+      if (!entityObject) {
+        // The entity is deleted by the transaction.
+        missingKeys.push(key);
+        return;
+      }
+      if (needsStoredEntity(entityObject)) {
+        keysToLookup.push(key);
+        writesToApply.set(keyString, entityObject);
+        return;
+      }
+      writtenEntities.push(applyPendingWrite(entityObject)!);
+    });
+
+    const stream = new Transform({
+      objectMode: true,
+      transform(storedEntity: Entity, encoding, next) {
+        const keyString = getKeyString(storedEntity[entity.KEY_SYMBOL]);
+        const entityObject = writesToApply.get(keyString);
+        if (!entityObject) {
+          next(null, storedEntity);
+          return;
+        }
+        writesToApply.delete(keyString);
+        next(null, applyPendingWrite(entityObject, storedEntity));
+      },
+      flush(done) {
+        // Entities which were patched, but not found.
+        const createdKeys = new Set<string>();
+        writesToApply.forEach((entityObject, keyString) => {
+          const patchedEntity = applyPendingWrite(entityObject);
+          if (patchedEntity) {
+            createdKeys.add(keyString);
+            this.push(patchedEntity);
+          }
+        });
+        writtenEntities.forEach(writtenEntity => this.push(writtenEntity));
+        const missing = missingKeys.filter(
+          key => !createdKeys.has(getKeyString(key)),
+        );
+        if (missing.length > 0) {
+          this.emit('missing', missing);
+        }
+        done();
+      },
+    });
+
+    if (keysToLookup.length === 0) {
+      stream.end();
+      return stream;
+    }
+    return super
+      .createReadStream(keysToLookup, options)
+      .on('error', err => stream.destroy(err))
+      .on('missing', (keys: entity.Key[]) => missingKeys.push(...keys))
+      .pipe(stream);
+  }
+
   /**
    * Maps to {@link https://cloud.google.com/nodejs/docs/reference/datastore/latest/datastore/transaction#_google_cloud_datastore_Transaction_save_member_1_|Datastore#save}, forcing the method to be `insert`.
    *
@@ -391,6 +569,65 @@ class Transaction extends DatastoreRequest {
     this.save(entities);
   }
 
+  /**
+   * Register a function to run once the transaction has been committed. The
+   * functions run in the order they were registered, after the commit
+   * succeeded and before the commit callback is called, or its promise
+   * resolves. They receive the API response of the commit.
+   *
+   * The functions also run when a write conflicts with its `ifVersion` or
+   * `ifUpdateTime` precondition, as the other writes are made. The write
+   * which was not made has `conflictDetected` set in the `mutationResults`
+   * of the response, and the commit fails with a {@link ConflictError}.
+   *
+   * The functions don't run if the commit fails, or if they are registered
+   * after the transaction ended. An error thrown by a function, or a promise
+   * it returns rejecting, is reported as a process warning and doesn't affect
+   * the commit.
+   *
+   * @param {function} fn The function to run.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const transaction = datastore.transaction();
+   *
+   * await transaction.run();
+   * transaction.save({key: datastore.key(['Order', 'o1']), data: {paid: true}});
+   * transaction.onCommit(() => events.publish('order-paid', 'o1'));
+   * await transaction.commit();
+   * ```
+   */
+  onCommit(fn: CommitHook): void {
+    this.#commitHooks.push(fn);
+  }
+
+  /**
+   * Register a function to run once the transaction has been rolled back,
+   * either with {@link Transaction#rollback} or automatically, e.g. after a
+   * failed commit. The functions run in the order they were registered,
+   * before the callback of the rollback or the commit is called.
+   *
+   * The functions don't run if they are registered after the transaction
+   * ended. An error thrown by a function, or a promise it returns rejecting,
+   * is reported as a process warning.
+   *
+   * @param {function} fn The function to run.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const transaction = datastore.transaction();
+   *
+   * transaction.onRollback(() => cache.clear());
+   * ```
+   */
+  onRollback(fn: RollbackHook): void {
+    this.#rollbackHooks.push(fn);
+  }
+
   /**
    * Reverse a transaction remotely and finalize the current transaction
    * instance.
@@ -440,24 +677,32 @@ class Transaction extends DatastoreRequest {
       typeof gaxOptionsOrCallback === 'function' ? gaxOptionsOrCallback : cb!;
 
     if (this.state === TransactionState.EXPIRED) {
-      callback(new Error(transactionExpiredError));
+      callback(new TransactionExpiredError(transactionExpiredError));
       return;
     }
     if (this.state === TransactionState.NOT_STARTED) {
       callback(new Error('Transaction is not started'));
       return;
     }
-    this.request_(
-      {
-        client: 'DatastoreClient',
-        method: 'rollback',
-        gaxOpts: gaxOptions || {},
-      },
-      (err, resp) => {
-        this.skipCommit = true;
-        this.state = TransactionState.EXPIRED;
-        callback(err || null, resp);
-      },
+    traceOperation(
+      'Transaction.rollback',
+      getRequestAttributes(this),
+      callback,
+      callback =>
+        this.request_(
+          {
+            client: 'DatastoreClient',
+            method: 'rollback',
+            gaxOpts: gaxOptions || {},
+          },
+          (err, resp) => {
+            this.skipCommit = true;
+            this.state = TransactionState.EXPIRED;
+            this.#commitHooks = [];
+            this.#runHooks(this.#rollbackHooks.splice(0));
+            callback(err || null, resp);
+          },
+        ),
     );
   }
 
@@ -524,17 +769,24 @@ class Transaction extends DatastoreRequest {
       typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
     const callback =
       typeof optionsOrCallback === 'function' ? optionsOrCallback : cb!;
-    void this.#mutex.runExclusive(async () => {
-      if (this.state === TransactionState.NOT_STARTED) {
-        const runResults = await this.#beginTransactionAsync(options);
-        this.#processBeginResults(runResults, callback);
-      } else {
-        process.emitWarning(
-          'run has already been called and should not be called again.',
-        );
-        callback(null, this, {transaction: this.id});
-      }
-    });
+    traceOperation(
+      'Transaction.run',
+      getRequestAttributes(this),
+      callback,
+      callback => {
+        void this.#mutex.runExclusive(async () => {
+          if (this.state === TransactionState.NOT_STARTED) {
+            const runResults = await this.#beginTransactionAsync(options);
+            this.#processBeginResults(runResults, callback);
+          } else {
+            process.emitWarning(
+              'run has already been called and should not be called again.',
+            );
+            callback(null, this, {transaction: this.id});
+          }
+        });
+      },
+    );
   }
 
   /**
@@ -555,69 +807,25 @@ class Transaction extends DatastoreRequest {
       return;
     }
 
-    const keys: Entities = {};
+    // The first error reported for the committed mutations, e.g. a conflict
+    // with the precondition of a save.
+    let mutationError: Error | null = null;
 
-    this.modifiedEntities_
-      // Reverse the order of the queue to respect the "last queued request
-      // wins" behavior.
-      .reverse()
-      // Limit the operations we're going to send through to only the most
-      // recently queued operations. E.g., if a user tries to save with the
-      // same key they just asked to be deleted, the delete request will be
-      // ignored, giving preference to the save operation.
-      .filter((modifiedEntity: Entity) => {
-        const key = modifiedEntity.entity.key;
-
-        if (!entity.isKeyComplete(key)) return true;
+    const {groups, overwritten} = this.#planMutations();
+    let validationError = this.#checkDuplicateKeys(overwritten);
 
-        const stringifiedKey = JSON.stringify(modifiedEntity.entity.key);
-
-        if (!keys[stringifiedKey]) {
-          keys[stringifiedKey] = true;
-          return true;
-        }
-
-        return false;
-      })
-      // Group entities together by method: `save` mutations, then `delete`.
-      // Note: `save` mutations being first is required to maintain order when
-      // assigning IDs to incomplete keys.
-      .sort((a, b) => {
-        return a.method < b.method ? 1 : a.method > b.method ? -1 : 0;
-      })
-      // Group arguments together so that we only make one call to each
-      // method. This is important for `DatastoreRequest.save`, especially, as
-      // that method handles assigning auto-generated IDs to the original keys
-      // passed in. When we eventually execute the `save` method's API
-      // callback, having all the keys together is necessary to maintain
-      // order.
-      .reduce((acc: Entities, entityObject: Entity) => {
-        const lastEntityObject = acc[acc.length - 1];
-        const sameMethod =
-          lastEntityObject && entityObject.method === lastEntityObject.method;
-
-        if (!lastEntityObject || !sameMethod) {
-          acc.push(entityObject);
-        } else {
-          lastEntityObject.args = lastEntityObject.args.concat(
-            entityObject.args,
-          );
-        }
-
-        return acc;
-      }, [])
-      // Call each of the mutational methods (DatastoreRequest[save,delete])
-      // to build up a `req` array on this instance. This will also build up a
-      // `callbacks` array, that is the same callback that would run if we
-      // were using `save` and `delete` outside of a transaction, to process
-      // the response from the API.
-      .forEach(
-        (modifiedEntity: {method: string; args: {reverse: () => void}}) => {
-          const method = modifiedEntity.method;
-          const args = modifiedEntity.args.reverse();
-          Datastore.prototype[method].call(this, args, () => {});
-        },
-      );
+    // Call each of the mutational methods (DatastoreRequest[save,delete]) to
+    // build up a `req` array on this instance. This will also build up a
+    // `callbacks` array, that is the same callback that would run if we were
+    // using `save` and `delete` outside of a transaction, to process the
+    // response from the API.
+    groups.forEach(modifiedEntity => {
+      const method = modifiedEntity.method;
+      const args = modifiedEntity.args.slice().reverse();
+      Datastore.prototype[method].call(this, args, (err?: Error | null) => {
+        mutationError = mutationError || err || null;
+      });
+    });
 
     // Take the `req` array built previously, and merge them into one request to
     // send as the final transactional commit.
@@ -630,6 +838,14 @@ class Transaction extends DatastoreRequest {
         ),
     };
 
+    validationError = validationError || checkCommitLimits(reqOpts);
+    if (validationError) {
+      const error = validationError;
+      // Release the locks of the transaction, like for a failed commit.
+      this.rollback(() => callback(error));
+      return;
+    }
+
     this.request_(
       {
         client: 'DatastoreClient',
@@ -658,7 +874,11 @@ class Transaction extends DatastoreRequest {
             cb(null, resp);
           },
         );
-        callback(null, resp);
+        // The transaction is committed even if some of its writes conflicted
+        // with their precondition, as the other writes were made.
+        this.#rollbackHooks = [];
+        this.#runHooks(this.#commitHooks.splice(0), resp);
+        callback(mutationError, resp);
       },
     );
   }
@@ -733,17 +953,20 @@ class Transaction extends DatastoreRequest {
    *
    **/
   runAggregationQuery(
-    query: AggregateQuery,
+    query: AggregateQuery | GqlQuery,
     options?: RunQueryOptions,
   ): Promise<RunQueryResponse>;
   runAggregationQuery(
-    query: AggregateQuery,
+    query: AggregateQuery | GqlQuery,
     options: RunQueryOptions,
     callback: RequestCallback,
   ): void;
-  runAggregationQuery(query: AggregateQuery, callback: RequestCallback): void;
   runAggregationQuery(
-    query: AggregateQuery,
+    query: AggregateQuery | GqlQuery,
+    callback: RequestCallback,
+  ): void;
+  runAggregationQuery(
+    query: AggregateQuery | GqlQuery,
     optionsOrCallback?: RunQueryOptions | RequestCallback,
     cb?: RequestCallback,
   ): void | Promise<RunQueryResponse> {
@@ -770,15 +993,18 @@ class Transaction extends DatastoreRequest {
    *     stream instance is returned.
    *
    */
-  runQuery(query: Query, options?: RunQueryOptions): Promise<RunQueryResponse>;
   runQuery(
-    query: Query,
+    query: Query | GqlQuery,
+    options?: RunQueryOptions,
+  ): Promise<RunQueryResponse>;
+  runQuery(
+    query: Query | GqlQuery,
     options: RunQueryOptions,
     callback: RunQueryCallback,
   ): void;
-  runQuery(query: Query, callback: RunQueryCallback): void;
+  runQuery(query: Query | GqlQuery, callback: RunQueryCallback): void;
   runQuery(
-    query: Query,
+    query: Query | GqlQuery,
     optionsOrCallback?: RunQueryOptions | RunQueryCallback,
     cb?: RunQueryCallback,
   ): void | Promise<RunQueryResponse> {
@@ -939,6 +1165,44 @@ class Transaction extends DatastoreRequest {
         args: [ent],
       });
     });
+    this.#resetIdleTimer();
+  }
+
+  /**
+   * Change some properties of an entity when the transaction is committed,
+   * without reading it first. See {@link Datastore#patch}.
+   *
+   * @param {Key|object[]} key Datastore key object, or the entities to patch.
+   * @param {object} [data] The properties to write, keyed by property path.
+   * @param {object} [options] Optional configuration. See
+   *     {@link Datastore#patch}.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const transaction = datastore.transaction();
+   *
+   * transaction.run((err) => {
+   *   if (err) {
+   *     // Error handling omitted.
+   *   }
+   *
+   *   transaction.patch(datastore.key(['Company', 123]), {rating: 10});
+   *
+   *   transaction.commit((err) => {});
+   * });
+   * ```
+   */
+  patch(
+    keyOrEntries: entity.Key | PatchEntry[],
+    data?: PatchEntry['data'],
+    options: Omit<PatchOptions, 'gaxOptions'> = {},
+  ): void {
+    const entries = entity.isDsKey(keyOrEntries)
+      ? [Object.assign({}, options, {key: keyOrEntries, data})]
+      : arrify(keyOrEntries);
+    this.save(entries.map(buildPatchEntity));
   }
 
   /**
@@ -985,6 +1249,383 @@ class Transaction extends DatastoreRequest {
     this.save(entities);
   }
 
+  /**
+   * Make a request with the transaction. The idle timer of the transaction is
+   * paused while the request is in flight.
+   *
+   * @private
+   */
+  request_(config: RequestConfig, callback: RequestCallback): void {
+    clearTimeout(this.#idleTimer);
+    super.request_(config, (err, resp) => {
+      callback(err, resp);
+      this.#resetIdleTimer();
+    });
+  }
+
+  /**
+   * Save the ID of a transaction which has begun, and start its idle timer.
+   *
+   * @private
+   */
+  protected parseTransactionResponse(resp?: {
+    transaction?: Uint8Array | string | undefined | null;
+  }): void {
+    super.parseTransactionResponse(resp);
+    this.#resetIdleTimer();
+  }
+
+  /**
+   * Get the mutations the transaction commits, in the order they are sent,
+   * and the queued mutations which are overwritten by a later one for the
+   * same key and therefore not committed. Saves are sent before deletes.
+   *
+   * @returns {object} The plan, with `mutations` and `overwritten` arrays of
+   *     objects with the `method` and `key` of a mutation.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const transaction = datastore.transaction();
+   * const key = datastore.key(['Company', 'Google']);
+   *
+   * transaction.delete(key);
+   * transaction.save({key, data: {rating: 10}});
+   *
+   * const {mutations, overwritten} = transaction.getMutationPlan();
+   * // mutations: [{method: 'upsert', key}]
+   * // overwritten: [{method: 'delete', key}]
+   * ```
+   */
+  getMutationPlan(): MutationPlan {
+    const {groups, overwritten} = this.#planMutations();
+    return {
+      mutations: groups.flatMap(group =>
+        group.args
+          .slice()
+          .reverse()
+          .map(arg => toPlannedMutation(group, arg)),
+      ),
+      overwritten: overwritten.flatMap(modifiedEntity =>
+        modifiedEntity.args.map(arg => toPlannedMutation(modifiedEntity, arg)),
+      ),
+    };
+  }
+
+  /**
+   * Get the mutations the transaction commits, in the order they are sent,
+   * with the data of the saved entities. Mutations overwritten by a later one
+   * for the same key are left out, see {@link Transaction#getMutationPlan}.
+   *
+   * @returns {object[]} Objects with the `method` and `key` of a mutation, and
+   *     the `data` of a saved entity.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const transaction = datastore.transaction();
+   * const key = datastore.key(['Company', 'Google']);
+   *
+   * transaction.save({key, data: {rating: 10}});
+   *
+   * const mutations = transaction.pendingMutations();
+   * // mutations: [{method: 'upsert', key, data: {rating: 10}}]
+   * ```
+   */
+  pendingMutations(): PendingMutation[] {
+    const {groups} = this.#planMutations();
+    return groups.flatMap(group =>
+      group.args
+        .slice()
+        .reverse()
+        .map(arg => {
+          const mutation: PendingMutation = toPlannedMutation(group, arg);
+          if (group.method !== 'delete') {
+            const {data} = DatastoreRequest.prepareEntityObject_(arg);
+            mutation.data = toEntityData(data);
+          }
+          return mutation;
+        }),
+    );
+  }
+
+  /**
+   * Drop the saves, patches and deletes queued in the transaction for a key.
+   * An incomplete key only matches the key object it was queued with.
+   *
+   * @param {Key} key Datastore key object.
+   * @returns {number} The number of mutations which were dropped.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const transaction = datastore.transaction();
+   * const key = datastore.key(['Company', 'Google']);
+   *
+   * transaction.save({key, data: {rating: 10}});
+   * transaction.discard(key);
+   * // The transaction commits nothing.
+   * ```
+   */
+  discard(key: entity.Key): number {
+    const isComplete = entity.isKeyComplete(key);
+    const keyString = getKeyString(key);
+    const queued = this.modifiedEntities_.length;
+    this.modifiedEntities_ = this.modifiedEntities_.filter(modifiedEntity => {
+      const queuedKey = getModifiedKey(modifiedEntity);
+      if (!isComplete) {
+        return queuedKey !== key;
+      }
+      return (
+        !entity.isKeyComplete(queuedKey) ||
+        getKeyString(queuedKey) !== keyString
+      );
+    });
+    return queued - this.modifiedEntities_.length;
+  }
+
+  /**
+   * Build the commit request of the transaction, as it would be sent by
+   * {@link Transaction#commit}, without sending it. The request of a
+   * transaction which has not begun yet has no `transaction` ID.
+   *
+   * The mutations are not validated, see the `duplicateKeys` option of
+   * {@link Datastore#transaction}.
+   *
+   * @param {function} [callback] The callback function. If omitted, a promise
+   *     is returned.
+   * @param {?error} callback.err An error returned while making this request.
+   * @param {object} callback.commitRequest The `CommitRequest` proto.
+   *
+   * @example
+   * ```
+   * const {Datastore} = require('@google-cloud/datastore');
+   * const datastore = new Datastore();
+   * const transaction = datastore.transaction();
+   *
+   * transaction.save({key: datastore.key(['Company']), data: {rating: 10}});
+   *
+   * const [commitRequest] = await transaction.toCommitRequest();
+   * // commitRequest.mutations: [{upsert: {key: {...}, properties: {...}}}]
+   * ```
+   */
+  toCommitRequest(): Promise<ToCommitRequestResponse>;
+  toCommitRequest(callback: ToCommitRequestCallback): void;
+  toCommitRequest(
+    callback?: ToCommitRequestCallback,
+  ): void | Promise<ToCommitRequestResponse> {
+    let mutations: google.datastore.v1.IMutation[];
+    try {
+      mutations = this.#buildMutations();
+    } catch (err) {
+      callback!(err as Error);
+      return;
+    }
+    getProjectIdOf(this.datastore, (err, projectId) => {
+      if (err) {
+        callback!(err);
+        return;
+      }
+      const commitRequest: google.datastore.v1.ICommitRequest = {
+        projectId,
+        mode: 'TRANSACTIONAL',
+        mutations,
+      };
+      if (this.id) {
+        commitRequest.transaction = this.id;
+      }
+      if (this.datastore.options.databaseId) {
+        commitRequest.databaseId = this.datastore.options.databaseId;
+      }
+      callback!(null, commitRequest);
+    });
+  }
+
+  /**
+   * Build the mutations of the commit request, the way `#runCommit` does.
+   * They are built on a stand-in for the transaction, so that nothing is
+   * queued for the commit, nor sent if the transaction has not begun yet.
+   *
+   * @private
+   */
+  #buildMutations(): google.datastore.v1.IMutation[] {
+    const builder = Object.create(this, {
+      id: {value: this.id || 'pending'},
+      requests_: {value: []},
+      requestCallbacks_: {value: []},
+    });
+    this.#planMutations().groups.forEach(group => {
+      Datastore.prototype[group.method].call(
+        builder,
+        group.args.slice().reverse(),
+        () => {},
+      );
+    });
+    return builder.requests_.flatMap(
+      (request: {mutations: google.datastore.v1.IMutation[]}) =>
+        request.mutations,
+    );
+  }
+
+  /**
+   * Group the queued mutations the way they are committed. Only the last
+   * mutation queued for a key is kept, e.g. a save queued after a delete of
+   * the same key wins. Saves are grouped before deletes, which keeps the order
+   * of the IDs assigned to incomplete keys, and the arguments of each method
+   * are grouped into one call. The arguments of a group are in reverse order
+   * of queueing.
+   *
+   * @private
+   */
+  #planMutations(): {
+    groups: ModifiedEntities;
+    overwritten: ModifiedEntities;
+  } {
+    const keys = new Set<string>();
+    const overwritten: ModifiedEntities = [];
+    const groups = this.modifiedEntities_
+      .slice()
+      .reverse()
+      .filter(modifiedEntity => {
+        const key = getModifiedKey(modifiedEntity);
+        if (!entity.isKeyComplete(key)) return true;
+
+        const keyString = getKeyString(key);
+        if (!keys.has(keyString)) {
+          keys.add(keyString);
+          return true;
+        }
+
+        overwritten.unshift(modifiedEntity);
+        return false;
+      })
+      .sort((a, b) => {
+        return a.method < b.method ? 1 : a.method > b.method ? -1 : 0;
+      })
+      .reduce((acc: ModifiedEntities, modifiedEntity) => {
+        const lastEntityObject = acc[acc.length - 1];
+        const sameMethod =
+          lastEntityObject && modifiedEntity.method === lastEntityObject.method;
+
+        if (!lastEntityObject || !sameMethod) {
+          acc.push(Object.assign({}, modifiedEntity));
+        } else {
+          lastEntityObject.args = lastEntityObject.args.concat(
+            modifiedEntity.args,
+          );
+        }
+
+        return acc;
+      }, []);
+    return {groups, overwritten};
+  }
+
+  /**
+   * Warn about or reject the mutations which are overwritten by a later one
+   * for the same key, depending on the `duplicateKeys` option.
+   *
+   * @private
+   */
+  #checkDuplicateKeys(overwritten: ModifiedEntities): Error | null {
+    if (overwritten.length === 0 || this.duplicateKeys === 'allow') {
+      return null;
+    }
+    const keyPaths = Array.from(
+      new Set(
+        overwritten.map(modifiedEntity => {
+          const key = getModifiedKey(modifiedEntity)!;
+          return `"${key.path.join('/')}"`;
+        }),
+      ),
+    );
+    const message =
+      `The transaction mutates ${keyPaths.join(', ')} more than once. ` +
+      'Only the last mutation of a key is committed.';
+    if (this.duplicateKeys === 'reject') {
+      return new Error(message);
+    }
+    process.emitWarning(message);
+    return null;
+  }
+
+  /**
+   * Run the functions registered with `onCommit` or `onRollback`.
+   *
+   * @private
+   */
+  #runHooks(hooks: Array<CommitHook | RollbackHook>, resp?: CommitApiResponse) {
+    const reportError = (err: Error) => {
+      process.emitWarning(
+        `A function registered to run after the transaction failed: ${err}`,
+      );
+    };
+    hooks.forEach(hook => {
+      try {
+        const result = hook(resp!);
+        if (result && typeof result.then === 'function') {
+          result.then(undefined, reportError);
+        }
+      } catch (err) {
+        reportError(err as Error);
+      }
+    });
+  }
+
+  /**
+   * Roll the transaction back once it has been idle, i.e. without requests
+   * or queued mutations, for `idleTimeoutMillis`.
+   *
+   * @private
+   */
+  #resetIdleTimer() {
+    clearTimeout(this.#idleTimer);
+    this.#idleTimer = undefined;
+    if (
+      this.idleTimeoutMillis === undefined ||
+      this.state !== TransactionState.IN_PROGRESS
+    ) {
+      return;
+    }
+    this.#idleTimer = setTimeout(() => {
+      this.#idleTimer = undefined;
+      if (this.state !== TransactionState.IN_PROGRESS) {
+        return;
+      }
+      process.emitWarning(
+        `The transaction was rolled back after being idle for ${this.idleTimeoutMillis}ms.`,
+      );
+      this.rollback(() => {
+        // The next request made with the transaction reports that it has
+        // expired.
+      });
+    }, this.idleTimeoutMillis);
+    this.#idleTimer.unref();
+  }
+
+  /**
+   * Collect the last write queued for each complete key, by the string of the
+   * key. A deleted key maps to `null`.
+   *
+   * @private
+   */
+  #getPendingWrites(): Map<string, Entity | null> {
+    const pendingWrites = new Map<string, Entity | null>();
+    this.modifiedEntities_.forEach(modifiedEntity => {
+      const isDelete = modifiedEntity.method === 'delete';
+      const entityObject = isDelete
+        ? null
+        : DatastoreRequest.prepareEntityObject_(modifiedEntity.args[0]);
+      const key = isDelete ? modifiedEntity.entity.key : entityObject!.key;
+      if (entity.isKeyComplete(key)) {
+        pendingWrites.set(getKeyString(key), entityObject);
+      }
+    });
+    return pendingWrites;
+  }
+
   /**
    * Some rpc calls require that the transaction has been started (i.e, has a
    * valid id) before they can be sent. #withBeginTransaction acts as a wrapper
@@ -1068,6 +1709,233 @@ class Transaction extends DatastoreRequest {
   }
 }
 
+/**
+ * Get the key of a queued mutation.
+ *
+ * @param {object} modifiedEntity The queued mutation.
+ * @returns {Key}
+ */
+function getModifiedKey(modifiedEntity: ModifiedEntities[number]): entity.Key {
+  return modifiedEntity.entity.key || modifiedEntity.args[0][entity.KEY_SYMBOL];
+}
+
+/**
+ * Describe a mutation of a group of queued mutations for the mutation plan.
+ *
+ * @param {object} modifiedEntity The queued mutation.
+ * @param {object} arg The key or entity of the mutation.
+ * @returns {object}
+ */
+function toPlannedMutation(
+  modifiedEntity: ModifiedEntities[number],
+  arg: Entity,
+): PlannedMutation {
+  if (modifiedEntity.method === 'delete') {
+    return {method: 'delete', key: entity.isDsKey(arg) ? arg : arg.key};
+  }
+  return {
+    method: arg.method || 'upsert',
+    key: arg.key || arg[entity.KEY_SYMBOL],
+  };
+}
+
+/**
+ * Check a commit request against the limits of the API, so that a commit
+ * which would be rejected fails with a clear error before it is sent.
+ *
+ * @param {object} reqOpts The commit request.
+ * @returns {?Error}
+ */
+function checkCommitLimits(
+  reqOpts: google.datastore.v1.ICommitRequest,
+): Error | null {
+  const mutationCount = reqOpts.mutations!.length;
+  if (mutationCount > MAX_COMMIT_MUTATIONS) {
+    return new Error(
+      `The transaction has ${mutationCount} mutations, more than the ${MAX_COMMIT_MUTATIONS} allowed in a commit.`,
+    );
+  }
+  // Encoding the request is about as costly as sending it, so it is only done
+  // when the request may be too large.
+  if (getMaxEncodedSize(reqOpts) <= MAX_COMMIT_BYTES) {
+    return null;
+  }
+  const size =
+    google.datastore.v1.CommitRequest.encode(reqOpts).finish().length;
+  if (size > MAX_COMMIT_BYTES) {
+    return new Error(
+      `The transaction is ${size} bytes, more than the ${MAX_COMMIT_BYTES} bytes allowed in a commit.`,
+    );
+  }
+  return null;
+}
+
+/**
+ * Get an upper bound of the size of a message once encoded, without encoding
+ * it. Each field is counted with the largest tag and length prefix it can
+ * have, and with its name, in case it is the key of a map entry.
+ *
+ * @param {*} value The message, or the value of one of its fields.
+ * @returns {number}
+ */
+function getMaxEncodedSize(value: unknown): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  if (typeof value === 'string') {
+    return 7 + 3 * value.length;
+  }
+  if (typeof value !== 'object') {
+    return 11;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return 7 + value.byteLength;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce(
+      (size, element) => size + getMaxEncodedSize(element),
+      0,
+    );
+  }
+  return Object.keys(value).reduce(
+    (size, name) =>
+      size +
+      14 +
+      3 * name.length +
+      getMaxEncodedSize((value as {[name: string]: unknown})[name]),
+    7,
+  );
+}
+
+/**
+ * Check if a queued write only changes some properties of the stored entity,
+ * i.e. it is a patch or it uses transforms.
+ *
+ * @param {object} entityObject The entity object of the write.
+ * @returns {boolean}
+ */
+function needsStoredEntity(entityObject: Entity): boolean {
+  return (
+    !!entityObject.propertyMask ||
+    buildPropertyTransforms(extend(true, {}, entityObject)).length > 0
+  );
+}
+
+/**
+ * Build the entity a queued write leaves behind at commit.
+ *
+ * @param {object} entityObject The entity object of the write.
+ * @param {object} [storedEntity] The entity as stored before the write.
+ * @returns {object|undefined} The entity, or `undefined` if an update patches
+ *     an entity which doesn't exist.
+ */
+function applyPendingWrite(
+  entityObject: Entity,
+  storedEntity?: Entity,
+): Entity | undefined {
+  const write = extend(true, {}, entityObject);
+  write.data = toEntityData(write.data);
+  const transformPaths = buildPropertyTransforms(write).map(
+    transform => transform.property!,
+  );
+
+  let propertyMask: string[] | undefined = write.propertyMask;
+  if (!propertyMask && transformPaths.length > 0) {
+    // Like in `save`, an entity written with nothing but transforms keeps its
+    // other properties.
+    propertyMask = Object.keys(write.data).length === 0 ? [] : undefined;
+  }
+
+  let result: Entity;
+  if (propertyMask) {
+    if (!storedEntity && write.method === 'update') {
+      return undefined;
+    }
+    result = extend(true, {}, storedEntity);
+    propertyMask.forEach(path => {
+      setPropertyPath(result, path, getPropertyPath(write.data, path));
+    });
+  } else {
+    result = write.data;
+    transformPaths.forEach(path => {
+      if (storedEntity) {
+        setPropertyPath(result, path, getPropertyPath(storedEntity, path));
+      }
+    });
+  }
+  result[entity.KEY_SYMBOL] = write.key;
+  return result;
+}
+
+/**
+ * Normalize the data of a saved entity, which can also be an array of
+ * properties with their names and values, to an object.
+ *
+ * @param {object|object[]} [data] The data of the entity.
+ * @returns {object}
+ */
+function toEntityData(data?: Entity): Entity {
+  if (Array.isArray(data)) {
+    return Object.fromEntries(
+      data.map((property: Entity) => [property.name, property.value]),
+    );
+  }
+  return data || {};
+}
+
+function getPropertyPath(value: Entity, path: string) {
+  return path
+    .split('.')
+    .reduce(
+      (parent: Entity, name: string) =>
+        parent !== null && typeof parent === 'object'
+          ? parent[name]
+          : undefined,
+      value,
+    );
+}
+
+function setPropertyPath(value: Entity, path: string, propertyValue: Entity) {
+  const names = path.split('.');
+  const property = names.pop()!;
+  const parent = names.reduce((parent: Entity, name: string) => {
+    if (parent[name] === null || typeof parent[name] !== 'object') {
+      parent[name] = {};
+    }
+    return parent[name];
+  }, value);
+  if (propertyValue === undefined) {
+    delete parent[property];
+  } else {
+    parent[property] = propertyValue;
+  }
+}
+
+export interface CommitHook {
+  (apiResponse: CommitApiResponse): void | Promise<void>;
+}
+export interface RollbackHook {
+  (): void | Promise<void>;
+}
+export type DuplicateKeysMode = 'allow' | 'warn' | 'reject';
+export interface PlannedMutation {
+  method: string;
+  key: entity.Key;
+}
+export interface PendingMutation extends PlannedMutation {
+  data?: Entity;
+}
+export type ToCommitRequestResponse = [google.datastore.v1.ICommitRequest];
+export interface ToCommitRequestCallback {
+  (
+    error: Error | null,
+    commitRequest?: google.datastore.v1.ICommitRequest,
+  ): void;
+}
+export interface MutationPlan {
+  mutations: PlannedMutation[];
+  overwritten: PlannedMutation[];
+}
 export type ModifiedEntities = Array<{
   entity: {key: Entity};
   method: string;
@@ -1102,9 +1970,17 @@ export interface RunOptions {
 promisifyAll(Transaction, {
   exclude: [
     'createAggregationQuery',
+    'createGqlQuery',
     'createQuery',
     'delete',
+    'discard',
+    'getMutationPlan',
     'insert',
+    'onCommit',
+    'onRollback',
+    'parseTransactionResponse',
+    'patch',
+    'pendingMutations',
     '#runAsync',
     'save',
     'update',
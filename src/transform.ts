@@ -0,0 +1,102 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Entity, entity} from './entity';
+import {google} from '../protos/protos';
+
+export type PropertyTransformType =
+  | 'setToServerValue'
+  | 'increment'
+  | 'maximum'
+  | 'minimum'
+  | 'appendMissingElements'
+  | 'removeAllFromArray';
+
+/**
+ * A PropertyTransform is a sentinel value which, when saved as a property of
+ * an entity, is applied to the stored property by the server instead of being
+ * written as-is.
+ *
+ * Create one with {@link Datastore.increment}, {@link Datastore.maximum},
+ * {@link Datastore.minimum}, {@link Datastore.serverTimestamp},
+ * {@link Datastore.arrayUnion} or {@link Datastore.arrayRemove}.
+ *
+ * @class
+ * @param {string} type The kind of transform, e.g. `increment`.
+ * @param {*} [value] The operand of the transform.
+ */
+class PropertyTransform {
+  type: PropertyTransformType;
+  value?: Entity;
+
+  constructor(type: PropertyTransformType, value?: Entity) {
+    /**
+     * @name PropertyTransform#type
+     * @type {string}
+     */
+    this.type = type;
+    /**
+     * @name PropertyTransform#value
+     * @type {*}
+     */
+    this.value = value;
+  }
+
+  /**
+   * Get the proto for this transform, applied to the given property.
+   *
+   * @param {string} property The property path, separated by dots for
+   *     properties inside entity values.
+   * @returns {object}
+   */
+  toProto(property: string): google.datastore.v1.IPropertyTransform {
+    const transformProto: google.datastore.v1.IPropertyTransform = {property};
+    switch (this.type) {
+      case 'setToServerValue': {
+        transformProto.setToServerValue = 'REQUEST_TIME';
+        break;
+      }
+      case 'appendMissingElements':
+      case 'removeAllFromArray': {
+        transformProto[this.type] = {
+          values: (this.value as Entity[]).map(
+            value =>
+              entity.encodeValue(value, property) as google.datastore.v1.IValue,
+          ),
+        };
+        break;
+      }
+      default: {
+        transformProto[this.type] = entity.encodeValue(
+          this.value,
+          property,
+        ) as google.datastore.v1.IValue;
+      }
+    }
+    return transformProto;
+  }
+}
+
+/**
+ * Check if something is a PropertyTransform object.
+ *
+ * @private
+ * @param {*} value The value to check.
+ * @returns {boolean}
+ */
+export function isPropertyTransform(value?: {}): value is PropertyTransform {
+  return value instanceof PropertyTransform;
+}
+
+export {PropertyTransform};
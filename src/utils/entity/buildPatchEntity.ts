@@ -0,0 +1,66 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import arrify = require('arrify');
+import {Entity} from '../../entity';
+import {PatchEntry, PrepareEntityObjectResponse} from '../../request';
+import {isPropertyTransform} from '../../transform';
+
+/**
+ * This function turns a patch entry into an entity object for `save`, with a
+ * property mask listing the patched and deleted property paths. A property
+ * path separated by dots, e.g. `address.city`, is written inside the entity
+ * value of its parent property, leaving the other properties of the parent
+ * untouched.
+ *
+ */
+export function buildPatchEntity(
+  entry: PatchEntry,
+): PrepareEntityObjectResponse {
+  const {data = {}, deleteProperties, method = 'update', ...rest} = entry;
+  const paths = Object.keys(data);
+  const deletePaths = arrify(deleteProperties);
+
+  const allPaths = paths.concat(deletePaths);
+  allPaths.forEach((path, index) => {
+    if (allPaths.indexOf(path) !== index) {
+      throw new Error(`The property "${path}" can only be patched once.`);
+    }
+    const parentPath = allPaths.find(other => path.startsWith(other + '.'));
+    if (parentPath) {
+      throw new Error(
+        `The property "${path}" cannot be patched along with its parent "${parentPath}".`,
+      );
+    }
+  });
+
+  const patchData: Entity = {};
+  paths.forEach(path => {
+    const names = path.split('.');
+    const property = names.pop()!;
+    const parent = names.reduce((value: Entity, name: string) => {
+      value[name] = value[name] || {};
+      return value[name];
+    }, patchData);
+    parent[property] = data[path];
+  });
+
+  // Transforms are applied after the mask, so masking their properties would
+  // clear the stored values they start from.
+  const propertyMask = paths
+    .filter(path => !isPropertyTransform(data[path]))
+    .concat(deletePaths);
+
+  return Object.assign(rest, {method, data: patchData, propertyMask});
+}
@@ -0,0 +1,80 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {entity} from '../../entity';
+import {ConflictError} from '../../errors';
+import {MutationPreconditions} from '../../request';
+import {google} from '../../../protos/protos';
+
+/**
+ * This function adds the conflict detection for the `ifVersion` or
+ * `ifUpdateTime` precondition of an entry to its mutation. Conflicts are
+ * resolved in favor of the stored entity and reported through
+ * `conflictDetected` on the mutation result.
+ *
+ */
+export function buildPreconditions(
+  mutation: google.datastore.v1.IMutation,
+  preconditions: MutationPreconditions,
+) {
+  const {ifVersion, ifUpdateTime} = preconditions;
+  const hasVersion = ifVersion !== undefined && ifVersion !== null;
+
+  if (hasVersion && ifUpdateTime) {
+    throw new Error('Only one of ifVersion and ifUpdateTime can be provided.');
+  }
+
+  if (hasVersion) {
+    mutation.baseVersion = ifVersion;
+  } else if (ifUpdateTime instanceof Date) {
+    const millis = ifUpdateTime.getTime();
+    mutation.updateTime = {
+      seconds: Math.floor(millis / 1000),
+      nanos: (millis % 1000) * 1e6,
+    };
+  } else if (ifUpdateTime) {
+    // A timestamp read from Datastore, e.g. `entity[Datastore.UPDATE_TIME]`,
+    // which keeps its full precision.
+    mutation.updateTime = {
+      seconds: ifUpdateTime.seconds,
+      nanos: ifUpdateTime.nanos,
+    };
+  } else {
+    return;
+  }
+
+  mutation.conflictResolutionStrategy = 'SERVER_VALUE';
+}
+
+/**
+ * This function checks the mutation results of a commit for conflicts and
+ * returns an error naming the conflicting keys, if there are any.
+ *
+ * @param {object[]} mutationResults The mutation results of the commit.
+ * @param {Key[]} keys The keys of the mutations, in order.
+ * @param {number} [offset=0] The index of the first of these mutations in the
+ *     commit.
+ */
+export function findConflicts(
+  mutationResults: google.datastore.v1.IMutationResult[],
+  keys: entity.Key[],
+  offset = 0,
+): ConflictError | null {
+  const conflicts = keys.filter(
+    (key, index) =>
+      mutationResults[offset + index] &&
+      mutationResults[offset + index].conflictDetected,
+  );
+  return conflicts.length > 0 ? new ConflictError(conflicts) : null;
+}
@@ -0,0 +1,78 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Entity} from '../../entity';
+import {isPropertyTransform} from '../../transform';
+import {google} from '../../../protos/protos';
+
+/**
+ * This function collects the property transforms of an entity object, both
+ * the ones listed in `entityObject.transforms` and the transform sentinels
+ * used as values in `entityObject.data`. The sentinels are removed from the
+ * data so that they are not written as regular properties.
+ *
+ */
+export function buildPropertyTransforms(
+  entityObject: Entity,
+): google.datastore.v1.IPropertyTransform[] {
+  const transforms: google.datastore.v1.IPropertyTransform[] = [];
+
+  if (Array.isArray(entityObject.data)) {
+    entityObject.data = entityObject.data.filter(
+      (data: {name: {toString(): string}; value: Entity}) => {
+        if (isPropertyTransform(data.value)) {
+          transforms.push(data.value.toProto(data.name.toString()));
+          return false;
+        }
+        collectFromEntityValue(data.value, data.name.toString());
+        return true;
+      },
+    );
+  } else {
+    collectFromEntityValue(entityObject.data, '');
+  }
+
+  const extraTransforms = entityObject.transforms || {};
+  for (const property of Object.keys(extraTransforms)) {
+    if (!isPropertyTransform(extraTransforms[property])) {
+      throw new Error(`The transform for "${property}" is not recognized.`);
+    }
+    transforms.push(extraTransforms[property].toProto(property));
+  }
+
+  return transforms;
+
+  function collectFromEntityValue(value: Entity, path: string) {
+    if (!isPlainObject(value)) {
+      return;
+    }
+    for (const property of Object.keys(value)) {
+      const propertyPath = path ? `${path}.${property}` : property;
+      if (isPropertyTransform(value[property])) {
+        transforms.push(value[property].toProto(propertyPath));
+        delete value[property];
+      } else {
+        collectFromEntityValue(value[property], propertyPath);
+      }
+    }
+  }
+}
+
+function isPlainObject(value: Entity) {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
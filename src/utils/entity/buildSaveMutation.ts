@@ -0,0 +1,60 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Entity, entity} from '../../entity';
+import {google} from '../../../protos/protos';
+import {buildEntityProto} from './buildEntityProto';
+import {buildPreconditions} from './buildPreconditions';
+import {buildPropertyTransforms} from './buildPropertyTransforms';
+import {extendExcludeFromIndexes} from './extendExcludeFromIndexes';
+
+/**
+ * This function builds the mutation which writes an entity object prepared by
+ * `DatastoreRequest.prepareEntityObject_`, with its property transforms,
+ * property mask and preconditions.
+ *
+ * @param {object} entityObject The entity object to write.
+ * @param {string} method The method of the mutation: `insert`, `update` or
+ *     `upsert`.
+ */
+export function buildSaveMutation(
+  entityObject: Entity,
+  method: 'insert' | 'update' | 'upsert',
+): google.datastore.v1.IMutation {
+  const propertyTransforms = buildPropertyTransforms(entityObject);
+  entityObject.data = entityObject.data || {};
+
+  extendExcludeFromIndexes(entityObject);
+  const entityProto = buildEntityProto(entityObject);
+  entityProto.key = entity.keyToKeyProto(entityObject.key);
+
+  const mutation: google.datastore.v1.IMutation = {[method]: entityProto};
+  buildPreconditions(mutation, entityObject);
+
+  if (entityObject.propertyMask) {
+    mutation.propertyMask = {paths: entityObject.propertyMask};
+  }
+
+  if (propertyTransforms.length > 0) {
+    mutation.propertyTransforms = propertyTransforms;
+
+    // An entity saved with nothing but transforms keeps its other
+    // properties, e.g. to bump a counter.
+    if (!mutation.propertyMask && Object.keys(entityObject.data).length === 0) {
+      mutation.propertyMask = {paths: []};
+    }
+  }
+
+  return mutation;
+}
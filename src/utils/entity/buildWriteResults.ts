@@ -0,0 +1,60 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {entity} from '../../entity';
+import {CommitApiResponse, WriteResult} from '../../request';
+
+/**
+ * This function adds a write result for each of the given mutations to
+ * `writeResults` of the commit response, so that the version and update time
+ * of a written entity can be read along with its key.
+ *
+ * @param {object} resp The response of the commit.
+ * @param {Key[]} keys The keys of the mutations, in order.
+ * @param {number} [offset=0] The index of the first of these mutations in the
+ *     commit.
+ */
+export function buildWriteResults(
+  resp: CommitApiResponse,
+  keys: entity.Key[],
+  offset = 0,
+) {
+  if (!resp.mutationResults) {
+    return;
+  }
+
+  const mutationResults = resp.mutationResults;
+  const writeResults = resp.writeResults || [];
+
+  keys.forEach((key, index) => {
+    const result = mutationResults[offset + index];
+    if (!result) {
+      return;
+    }
+
+    const writeResult: WriteResult = {key};
+    if (result.version !== undefined && result.version !== null) {
+      writeResult.version = String(result.version);
+    }
+    if (result.createTime) {
+      writeResult.createTime = entity.timestampFromProto(result.createTime);
+    }
+    if (result.updateTime) {
+      writeResult.updateTime = entity.timestampFromProto(result.updateTime);
+    }
+    writeResults[offset + index] = writeResult;
+  });
+
+  resp.writeResults = writeResults;
+}
@@ -0,0 +1,34 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {entity} from '../../entity';
+
+/**
+ * Identify a key by its namespace and path, so that a key returned by the API
+ * matches the key it was looked up with.
+ *
+ * @param {Key} key The key.
+ * @returns {string}
+ */
+export function getKeyString(key: entity.Key): string {
+  const path: string[] = [];
+  for (let ancestor: entity.Key | undefined = key; ancestor; ) {
+    path.unshift(
+      ancestor.kind,
+      ancestor.id !== undefined ? `id:${ancestor.id}` : `name:${ancestor.name}`,
+    );
+    ancestor = ancestor.parent;
+  }
+  return JSON.stringify([key.namespace || ''].concat(path));
+}
@@ -0,0 +1,282 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {Status} from 'google-gax';
+import * as sinon from 'sinon';
+import {ConflictError, Datastore} from '../src';
+import {RateLimiter} from '../src/bulk-writer';
+import {entity} from '../src/entity';
+import {RequestConfig} from '../src/request';
+import {google} from '../protos/protos';
+
+describe('RateLimiter', () => {
+  const minute = 60 * 1000;
+
+  it('should grow the capacity every ramp-up period', () => {
+    const limiter = new RateLimiter(500, 1.5, 5 * minute, 1000, 0);
+    assert.strictEqual(limiter.calculateCapacity(0), 500);
+    assert.strictEqual(limiter.calculateCapacity(5 * minute - 1), 500);
+    assert.strictEqual(limiter.calculateCapacity(5 * minute), 750);
+    assert.strictEqual(limiter.calculateCapacity(10 * minute), 1000);
+  });
+
+  it('should only allow requests with available tokens', () => {
+    const limiter = new RateLimiter(500, 1.5, 5 * minute, 1000, 0);
+    assert.strictEqual(limiter.tryMakeRequest(400, 0), true);
+    assert.strictEqual(limiter.tryMakeRequest(200, 0), false);
+    assert.strictEqual(limiter.getNextRequestDelayMs(200, 0), 200);
+    assert.strictEqual(limiter.tryMakeRequest(200, 200), true);
+  });
+
+  it('should allow a request larger than the capacity when full', () => {
+    const limiter = new RateLimiter(10, 1.5, 5 * minute, 10, 0);
+    assert.strictEqual(limiter.tryMakeRequest(500, 0), true);
+    assert.strictEqual(limiter.tryMakeRequest(1, 0), false);
+  });
+});
+
+describe('BulkWriter', () => {
+  let datastore: Datastore;
+  let requests: google.datastore.v1.ICommitRequest[];
+  let respond: (
+    reqOpts: google.datastore.v1.ICommitRequest,
+    callback: Function,
+  ) => void;
+
+  beforeEach(() => {
+    datastore = new Datastore({projectId: 'project-id'});
+    requests = [];
+    respond = (reqOpts, callback) => {
+      callback(null, {
+        mutationResults: reqOpts.mutations!.map(() => ({version: '1'})),
+      });
+    };
+    datastore.request_ = (config: RequestConfig, callback: Function) => {
+      assert.strictEqual(config.method, 'commit');
+      const reqOpts = config.reqOpts as google.datastore.v1.ICommitRequest;
+      requests.push(reqOpts);
+      respond(reqOpts, callback);
+    };
+  });
+
+  it('should write the queued operations in one commit', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const setKey = datastore.key(['Task', 'one']);
+    const deleteKey = datastore.key(['Task', 'two']);
+
+    const results = Promise.all([
+      writer.set({key: setKey, data: {done: false}}),
+      writer.delete({key: deleteKey, ifVersion: '3'}),
+    ]);
+    assert.strictEqual(requests.length, 0);
+    await writer.flush();
+
+    assert.strictEqual(requests.length, 1);
+    assert.deepStrictEqual(requests[0].mutations, [
+      {
+        upsert: {
+          key: entity.keyToKeyProto(setKey),
+          properties: {done: {booleanValue: false}},
+        },
+      },
+      {
+        delete: entity.keyToKeyProto(deleteKey),
+        baseVersion: '3',
+        conflictResolutionStrategy: 'SERVER_VALUE',
+      },
+    ]);
+    assert.deepStrictEqual(await results, [
+      {key: setKey, version: '1'},
+      {key: deleteKey, version: '1'},
+    ]);
+  });
+
+  it('should send full batches right away', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const writes = [];
+    for (let i = 0; i < 501; i++) {
+      writes.push(writer.set({key: datastore.key(['Task', i]), data: {}}));
+    }
+    assert.deepStrictEqual(
+      requests.map(request => request.mutations!.length),
+      [500],
+    );
+    await writer.close();
+    assert.deepStrictEqual(
+      requests.map(request => request.mutations!.length),
+      [500, 1],
+    );
+    assert.strictEqual((await Promise.all(writes)).length, 501);
+  });
+
+  it('should not write an entity twice in one commit', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const key = datastore.key(['Task', 'one']);
+    void writer.set({key, data: {step: 1}});
+    void writer.set({key: datastore.key(['Task', 'two']), data: {}});
+    void writer.set({key, data: {step: 2}});
+    await writer.flush();
+    assert.deepStrictEqual(
+      requests.map(request => request.mutations!.length),
+      [2, 1],
+    );
+  });
+
+  it('should assign the ID allocated for an insert', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const key = datastore.key(['Task']);
+    respond = (reqOpts, callback) => {
+      callback(null, {
+        mutationResults: [
+          {key: {path: [{kind: 'Task', id: '123', idType: 'id'}]}},
+        ],
+      });
+    };
+    const result = writer.insert({key, data: {}});
+    await writer.flush();
+    assert.strictEqual((await result).key, key);
+    assert.strictEqual(key.id, '123');
+  });
+
+  it('should assign the ID allocated for a set', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const key = datastore.key(['Task']);
+    respond = (reqOpts, callback) => {
+      callback(null, {
+        mutationResults: [
+          {key: {path: [{kind: 'Task', id: '123', idType: 'id'}]}},
+        ],
+      });
+    };
+    const result = writer.set({key, data: {}});
+    await writer.flush();
+    assert.strictEqual((await result).key, key);
+    assert.strictEqual(key.id, '123');
+  });
+
+  it('should keep the other properties of a transform-only update', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const key = datastore.key(['Task', 'one']);
+    const result = writer.update({
+      key,
+      data: {views: Datastore.increment(1)},
+    });
+    await writer.flush();
+    await result;
+    assert.deepStrictEqual(requests[0].mutations![0].propertyMask, {
+      paths: [],
+    });
+    assert.strictEqual(requests[0].mutations![0].propertyTransforms!.length, 1);
+  });
+
+  it('should retry a commit after a retryable error', async () => {
+    const writer = datastore.bulkWriter({
+      throttling: false,
+      initialRetryDelayMillis: 0,
+    });
+    const error = Object.assign(new Error('unavailable'), {
+      code: Status.UNAVAILABLE,
+    });
+    let failures = 2;
+    respond = (reqOpts, callback) => {
+      if (failures-- > 0) {
+        callback(error);
+        return;
+      }
+      callback(null, {mutationResults: [{version: '5'}]});
+    };
+
+    const result = writer.set({key: datastore.key(['Task', 'one']), data: {}});
+    await writer.flush();
+    assert.strictEqual(requests.length, 3);
+    assert.strictEqual((await result).version, '5');
+  });
+
+  it('should reject the operations after the last retry', async () => {
+    const writer = datastore.bulkWriter({
+      throttling: false,
+      maxRetries: 1,
+      initialRetryDelayMillis: 0,
+    });
+    const error = Object.assign(new Error('unavailable'), {
+      code: Status.UNAVAILABLE,
+    });
+    respond = (reqOpts, callback) => callback(error);
+
+    const result = writer.set({key: datastore.key(['Task', 'one']), data: {}});
+    await writer.flush();
+    assert.strictEqual(requests.length, 2);
+    await assert.rejects(result, error);
+  });
+
+  it('should not retry other errors', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const error = Object.assign(new Error('invalid'), {
+      code: Status.INVALID_ARGUMENT,
+    });
+    respond = (reqOpts, callback) => callback(error);
+
+    const result = writer.set({key: datastore.key(['Task', 'one']), data: {}});
+    await writer.flush();
+    assert.strictEqual(requests.length, 1);
+    await assert.rejects(result, error);
+  });
+
+  it('should reject an operation with a conflict', async () => {
+    const writer = datastore.bulkWriter({throttling: false});
+    const key = datastore.key(['Task', 'one']);
+    respond = (reqOpts, callback) => {
+      callback(null, {mutationResults: [{conflictDetected: true}]});
+    };
+
+    const result = writer.update({key, data: {}, ifVersion: 1});
+    await writer.flush();
+    await assert.rejects(result, (err: ConflictError) => {
+      assert(err instanceof ConflictError);
+      assert.strictEqual(err.key, key);
+      return true;
+    });
+  });
+
+  it('should throttle the commits', async () => {
+    const clock = sinon.useFakeTimers();
+    try {
+      const writer = datastore.bulkWriter({
+        throttling: {initialOpsPerSecond: 1000},
+      });
+      for (let i = 0; i < 1500; i++) {
+        void writer.set({key: datastore.key(['Task', i]), data: {}});
+      }
+      assert.strictEqual(requests.length, 2);
+      await clock.tickAsync(499);
+      assert.strictEqual(requests.length, 2);
+      await clock.tickAsync(1);
+      assert.strictEqual(requests.length, 3);
+      await writer.close();
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it('should not accept operations after it is closed', async () => {
+    const writer = datastore.bulkWriter();
+    await writer.close();
+    assert.throws(
+      () => writer.delete(datastore.key(['Task', 'one'])),
+      /The BulkWriter has already been closed\./,
+    );
+  });
+});
@@ -0,0 +1,269 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {CachedEntity, Datastore, EntityCache, LruCache} from '../src';
+import {google} from '../protos/protos';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Request = any;
+type Callback = (err: Error | null, resp?: {}) => void;
+
+describe('Cache', () => {
+  describe('LruCache', () => {
+    function cached(name: string) {
+      return {entity: {properties: {name: {stringValue: name}}}};
+    }
+
+    it('should drop the least recently used entity', () => {
+      const cache = new LruCache({maxEntries: 2});
+      cache.set('one', cached('one'));
+      cache.set('two', cached('two'));
+      cache.get('one');
+      cache.set('three', cached('three'));
+      assert.deepStrictEqual(cache.get('one'), cached('one'));
+      assert.strictEqual(cache.get('two'), undefined);
+      assert.deepStrictEqual(cache.get('three'), cached('three'));
+    });
+
+    it('should delete an entity', () => {
+      const cache = new LruCache();
+      cache.set('one', cached('one'));
+      cache.delete('one');
+      assert.strictEqual(cache.get('one'), undefined);
+    });
+  });
+
+  it('should create an in-memory cache', () => {
+    const cache = new LruCache();
+    assert(new Datastore({cache: true}).cache_ instanceof LruCache);
+    assert.strictEqual(new Datastore({cache}).cache_, cache);
+    assert.strictEqual(new Datastore().cache_, undefined);
+  });
+
+  describe('reads and writes', () => {
+    let datastore: Datastore;
+    let lookups: Request[];
+    let commitError: Error | null;
+
+    function getLookedUpNames(lookup: Request) {
+      return lookup.keys.map(
+        (key: google.datastore.v1.IKey) => key.path![key.path!.length - 1].name,
+      );
+    }
+
+    function useClient(client: Datastore) {
+      datastore = client;
+      lookups = [];
+      commitError = null;
+      const dataClient = datastore.clients_.get('DatastoreClient')!;
+      dataClient.lookup = (
+        request: Request,
+        options: {},
+        callback: Callback,
+      ) => {
+        lookups.push(request);
+        const found = request.keys.map((key: google.datastore.v1.IKey) => ({
+          entity: {
+            key: {
+              partitionId: key.partitionId,
+              path: key.path!.map(element =>
+                Object.assign({idType: 'name'}, element),
+              ),
+            },
+            properties: {
+              lookup: {valueType: 'integerValue', integerValue: lookups.length},
+            },
+          },
+        }));
+        setImmediate(callback, null, {found, missing: []});
+      };
+      dataClient.beginTransaction = (
+        request: {},
+        options: {},
+        callback: Callback,
+      ) => setImmediate(callback, null, {transaction: 'transaction-id'});
+      dataClient.commit = (
+        request: Request,
+        options: {},
+        callback: Callback,
+      ) => {
+        if (commitError) {
+          setImmediate(callback, commitError);
+          return;
+        }
+        setImmediate(callback, null, {
+          mutationResults: request.mutations.map(() => ({})),
+        });
+      };
+    }
+
+    beforeEach(() => {
+      const client = getInitializedDatastoreClient();
+      client.cache_ = new LruCache();
+      useClient(client);
+    });
+
+    it('should read an entity from the cache', async () => {
+      const key = datastore.key(['Task', 'one']);
+      const [first] = await datastore.get(key);
+      const [second] = await datastore.get(key);
+      assert.strictEqual(lookups.length, 1);
+      assert.strictEqual(first.lookup, 1);
+      assert.strictEqual(second.lookup, 1);
+      assert.deepStrictEqual(second[datastore.KEY], key);
+    });
+
+    it('should only look up the entities which are not cached', async () => {
+      await datastore.get(datastore.key(['Task', 'one']));
+      const [tasks] = await datastore.get([
+        datastore.key(['Task', 'one']),
+        datastore.key(['Task', 'two']),
+      ]);
+      assert.strictEqual(tasks.length, 2);
+      assert.deepStrictEqual(getLookedUpNames(lookups[1]), ['two']);
+    });
+
+    it('should bypass the cache', async () => {
+      const key = datastore.key(['Task', 'one']);
+      await datastore.get(key);
+      await datastore.get(key, {consistency: 'strong'});
+      await datastore.get(key, {readTime: 1000});
+      await datastore.get(key, {propertyMask: 'lookup'});
+      const transaction = datastore.transaction();
+      await transaction.run();
+      await transaction.get(key);
+      assert.strictEqual(lookups.length, 5);
+    });
+
+    it('should invalidate the entities which are written', async () => {
+      const keys = ['one', 'two', 'three'].map(name =>
+        datastore.key(['Task', name]),
+      );
+      await datastore.get(keys);
+      await datastore.save({key: keys[0], data: {}});
+      await datastore.delete(keys[1]);
+      await datastore.get(keys);
+      assert.deepStrictEqual(getLookedUpNames(lookups[1]), ['one', 'two']);
+    });
+
+    it('should invalidate the writes of a transaction', async () => {
+      const key = datastore.key(['Task', 'one']);
+      await datastore.get(key);
+      const transaction = datastore.transaction();
+      await transaction.run();
+      transaction.save({key, data: {}});
+      await transaction.commit();
+      await datastore.get(key);
+      assert.strictEqual(lookups.length, 2);
+    });
+
+    it('should invalidate the writes of a failed commit', async () => {
+      const key = datastore.key(['Task', 'one']);
+      await datastore.get(key);
+      commitError = new Error('Error.');
+      await assert.rejects(datastore.save({key, data: {}}), commitError);
+      await datastore.get(key);
+      assert.strictEqual(lookups.length, 2);
+    });
+
+    it('should not cache a lookup which raced with a write', async () => {
+      const key = datastore.key(['Task', 'one']);
+      const dataClient = datastore.clients_.get('DatastoreClient')!;
+      const lookup = dataClient.lookup;
+      // Hold the response of the first lookup until the write is done.
+      let respond!: () => void;
+      dataClient.lookup = (
+        request: Request,
+        options: {},
+        callback: Callback,
+      ) => {
+        dataClient.lookup = lookup;
+        respond = () => lookup(request, options, callback);
+      };
+      const staleRead = datastore.get(key);
+      await new Promise(resolve => setImmediate(resolve));
+      await datastore.save({key, data: {}});
+      respond();
+      await staleRead;
+      await datastore.get(key);
+      assert.strictEqual(lookups.length, 2);
+    });
+
+    it('should cache a lookup which raced with the write of another key', async () => {
+      const key = datastore.key(['Task', 'one']);
+      const dataClient = datastore.clients_.get('DatastoreClient')!;
+      const lookup = dataClient.lookup;
+      let respond!: () => void;
+      dataClient.lookup = (
+        request: Request,
+        options: {},
+        callback: Callback,
+      ) => {
+        dataClient.lookup = lookup;
+        respond = () => lookup(request, options, callback);
+      };
+      const read = datastore.get(key);
+      await new Promise(resolve => setImmediate(resolve));
+      await datastore.save({key: datastore.key(['Task', 'two']), data: {}});
+      respond();
+      await read;
+      await datastore.get(key);
+      assert.strictEqual(lookups.length, 1);
+    });
+
+    it('should use an asynchronous cache', async () => {
+      const store = new Map<string, CachedEntity>();
+      const cache: EntityCache = {
+        get: async key => store.get(key),
+        set: async (key, value) => {
+          store.set(key, value);
+        },
+        delete: async key => {
+          store.delete(key);
+        },
+      };
+      datastore.cache_ = cache;
+      const key = datastore.key(['Task', 'one']);
+      await datastore.get(key);
+      await datastore.get(key);
+      assert.strictEqual(lookups.length, 1);
+      await datastore.save({key, data: {}});
+      assert.strictEqual(store.size, 0);
+    });
+
+    it('should look up the entities when the cache fails', async () => {
+      const error = new Error('Unavailable.');
+      datastore.cache_ = {
+        get: () => Promise.reject(error),
+        set: () => Promise.reject(error),
+        delete: () => Promise.reject(error),
+      };
+      const key = datastore.key(['Task', 'one']);
+      const [task] = await datastore.get(key);
+      assert.strictEqual(task.lookup, 1);
+      await datastore.save({key, data: {}});
+    });
+
+    it('should keep the entities of databases apart', async () => {
+      const other = datastore.database('other');
+      assert.strictEqual(other.cache_, datastore.cache_);
+      await datastore.get(datastore.key(['Task', 'one']));
+      await other.get(other.key(['Task', 'one']));
+      assert.strictEqual(lookups.length, 2);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {ChunkError, Datastore} from '../src';
+import {entity} from '../src/entity';
+import {google} from '../protos/protos';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Request = any;
+type Callback = (err: Error | null, resp?: {}) => void;
+
+describe('Chunks', () => {
+  let datastore: Datastore;
+  let lookups: Request[];
+  let commits: Request[];
+  let running: number;
+  let maxRunning: number;
+  // The index of the request which fails, if any.
+  let failingRequest: number | undefined;
+
+  function getName(key: google.datastore.v1.IKey) {
+    return key.path![key.path!.length - 1].name;
+  }
+
+  function getKeys(count: number) {
+    return Array.from({length: count}, (_, index) =>
+      datastore.key(['Task', `task-${index}`]),
+    );
+  }
+
+  // Respond to a request after the other requests sent at the same time.
+  function respond(callback: Callback, index: number, resp: {}) {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    setImmediate(() => {
+      running--;
+      if (index === failingRequest) {
+        callback(new Error('Unavailable.'));
+        return;
+      }
+      callback(null, resp);
+    });
+  }
+
+  // Get the key of a mutation result: the key of an insert, completed with
+  // an allocated ID, or none.
+  function allocateId(key: google.datastore.v1.IKey | null) {
+    if (!key) {
+      return null;
+    }
+    const path = key.path!.map(element =>
+      Object.assign({idType: element.name ? 'name' : 'id'}, element),
+    );
+    const last = path[path.length - 1];
+    if (!last.name && !last.id) {
+      last.id = String(1000 + commits.length);
+    }
+    return {partitionId: key.partitionId, path};
+  }
+
+  beforeEach(() => {
+    datastore = getInitializedDatastoreClient();
+    lookups = [];
+    commits = [];
+    running = 0;
+    maxRunning = 0;
+    failingRequest = undefined;
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.lookup = (request: Request, options: {}, callback: Callback) => {
+      lookups.push(request);
+      // Every key is found, except the ones named `missing`, in reverse order.
+      const keys: google.datastore.v1.IKey[] = request.keys.slice().reverse();
+      const found = keys
+        .filter(key => getName(key) !== 'missing')
+        .map(key => ({
+          entity: {
+            key: {
+              partitionId: key.partitionId,
+              path: key.path!.map(element =>
+                Object.assign({idType: 'name'}, element),
+              ),
+            },
+            properties: {
+              name: {valueType: 'stringValue', stringValue: getName(key)},
+            },
+          },
+        }));
+      const missing = keys
+        .filter(key => getName(key) === 'missing')
+        .map(key => ({
+          entity: {
+            key: {
+              partitionId: key.partitionId,
+              path: key.path!.map(element =>
+                Object.assign({idType: 'name'}, element),
+              ),
+            },
+          },
+        }));
+      respond(callback, lookups.length - 1, {found, missing});
+    };
+    dataClient.beginTransaction = (
+      request: {},
+      options: {},
+      callback: Callback,
+    ) => setImmediate(callback, null, {transaction: 'transaction-id'});
+    dataClient.commit = (request: Request, options: {}, callback: Callback) => {
+      commits.push(request);
+      respond(callback, commits.length - 1, {
+        mutationResults: request.mutations.map(
+          (mutation: google.datastore.v1.IMutation) => ({
+            key: allocateId(mutation.upsert ? mutation.upsert.key! : null),
+            version: 1,
+          }),
+        ),
+        indexUpdates: request.mutations.length,
+        commitTime: {seconds: commits.length},
+      });
+    };
+  });
+
+  describe('get', () => {
+    it('should look up the keys in chunks', async () => {
+      const keys = getKeys(2500);
+      const [tasks] = await datastore.get(keys, {alignResults: true});
+      assert.deepStrictEqual(
+        lookups.map(lookup => lookup.keys.length),
+        [1000, 1000, 500],
+      );
+      assert.deepStrictEqual(
+        tasks.map((task: {name: string}) => task.name),
+        keys.map(key => key.name),
+      );
+    });
+
+    it('should report the missing keys of all chunks', async () => {
+      const keys = getKeys(1500);
+      keys[10] = datastore.key(['Task', 'missing']);
+      keys[1200] = datastore.key(['Task', 'missing']);
+      const [tasks, info] = await datastore.get(keys);
+      assert.strictEqual(tasks.length, 1498);
+      assert.strictEqual(info!.missing.length, 2);
+    });
+
+    it('should reject with the chunk which failed', async () => {
+      failingRequest = 1;
+      const keys = getKeys(2500);
+      await assert.rejects(datastore.get(keys), (err: ChunkError) => {
+        assert(err instanceof ChunkError);
+        assert.strictEqual(err.chunkIndex, 1);
+        assert.strictEqual(err.chunkCount, 3);
+        assert.strictEqual((err.cause as Error).message, 'Unavailable.');
+        assert.deepStrictEqual(err.keys, keys.slice(1000, 2000));
+        assert.deepStrictEqual(err.completedKeys, [
+          ...keys.slice(0, 1000),
+          ...keys.slice(2000),
+        ]);
+        return true;
+      });
+    });
+
+    it('should not look up more keys than a transaction accepts', async () => {
+      const transaction = datastore.transaction();
+      await transaction.run();
+      await assert.rejects(
+        transaction.get(getKeys(1001)),
+        /A transaction can't look up more than 1000 keys at once, not 1001\./,
+      );
+      assert.strictEqual(lookups.length, 0);
+    });
+  });
+
+  describe('save', () => {
+    it('should commit the entities in chunks', async () => {
+      const keys = getKeys(1200);
+      const [resp] = await datastore.save(
+        keys.map(key => ({key, data: {done: false}})),
+      );
+      assert.deepStrictEqual(
+        commits.map(commit => commit.mutations.length),
+        [500, 500, 200],
+      );
+      assert.strictEqual(resp.mutationResults!.length, 1200);
+      assert.deepStrictEqual(
+        resp.writeResults!.map(result => result.key),
+        keys,
+      );
+      assert.strictEqual(resp.indexUpdates, 1200);
+      assert.deepStrictEqual(resp.commitTime, {seconds: 3});
+    });
+
+    it('should commit a save of one chunk as before', async () => {
+      await datastore.save({key: getKeys(1)[0], data: {}});
+      assert.strictEqual(commits.length, 1);
+    });
+
+    it('should send at most 5 chunks at a time', async () => {
+      const keys = getKeys(5000);
+      await datastore.save(keys.map(key => ({key, data: {}})));
+      assert.strictEqual(commits.length, 10);
+      assert.strictEqual(maxRunning, 5);
+    });
+
+    it('should not send chunks once a chunk failed', async () => {
+      failingRequest = 0;
+      const keys = getKeys(5000);
+      await assert.rejects(
+        datastore.save(keys.map(key => ({key, data: {}}))),
+        (err: ChunkError) => {
+          assert.strictEqual(err.chunkIndex, 0);
+          assert.strictEqual(err.chunkCount, 10);
+          assert.match(
+            err.message,
+            /^Chunk 1 of 10 failed, while the chunks of 2000 keys succeeded: Unavailable\.$/,
+          );
+          assert.deepStrictEqual(err.completedKeys, keys.slice(500, 2500));
+          return true;
+        },
+      );
+      assert.strictEqual(commits.length, 5);
+    });
+
+    it('should not commit more mutations than a transaction accepts', async () => {
+      const transaction = datastore.transaction();
+      await transaction.run();
+      transaction.save(getKeys(501).map(key => ({key, data: {}})));
+      await assert.rejects(transaction.commit(), /500/);
+      assert.strictEqual(commits.length, 0);
+    });
+
+    it('should merge the latest commit time of the chunks', async () => {
+      const commitTimes = [
+        {seconds: 3, nanos: 9},
+        {seconds: 2},
+        {seconds: 3, nanos: 5},
+      ];
+      const dataClient = datastore.clients_.get('DatastoreClient')!;
+      dataClient.commit = (
+        request: Request,
+        options: {},
+        callback: Callback,
+      ) => {
+        commits.push(request);
+        respond(callback, commits.length - 1, {
+          mutationResults: request.mutations.map(() => ({version: 1})),
+          commitTime: commitTimes[commits.length - 1],
+        });
+      };
+      const [resp] = await datastore.save(
+        getKeys(1200).map(key => ({key, data: {}})),
+      );
+      assert.deepStrictEqual(resp.commitTime, {seconds: 3, nanos: 9});
+    });
+
+    it('should reject a key saved in two chunks', async () => {
+      const keys = getKeys(600);
+      keys[550] = datastore.key(['Task', 'task-10']);
+      await assert.rejects(
+        datastore.save(keys.map(key => ({key, data: {}}))),
+        /^Error: The key \["Task","task-10"\] can only be written once outside of a transaction\.$/,
+      );
+      assert.strictEqual(commits.length, 0);
+    });
+
+    it('should complete the keys of the inserts of the chunks which succeeded', async () => {
+      failingRequest = 1;
+      const keys = Array.from({length: 600}, () => datastore.key(['Task']));
+      await assert.rejects(
+        datastore.save(keys.map(key => ({key, data: {}}))),
+        (err: ChunkError) => {
+          assert.strictEqual(err.completedKeys.length, 500);
+          assert(err.completedKeys.every(key => key.id === '1001'));
+          assert(err.keys!.every(key => key.id === undefined));
+          return true;
+        },
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the keys in chunks', async () => {
+      const keys = getKeys(600);
+      const [resp] = await datastore.delete(keys);
+      assert.deepStrictEqual(
+        commits.map(commit =>
+          commit.mutations.map((mutation: google.datastore.v1.IMutation) =>
+            getName(mutation.delete!),
+          ),
+        ),
+        [
+          keys.slice(0, 500).map(key => key.name),
+          keys.slice(500).map(key => key.name),
+        ],
+      );
+      assert.deepStrictEqual(
+        resp.writeResults!.map(result => result.key),
+        keys,
+      );
+    });
+
+    it('should reject a key deleted in two chunks', async () => {
+      const keys = getKeys(600);
+      keys[550] = datastore.key(['Task', 'task-10']);
+      await assert.rejects(datastore.delete(keys), /can only be written once/);
+      assert.strictEqual(commits.length, 0);
+    });
+
+    it('should report the keys of the chunk which failed', async () => {
+      failingRequest = 1;
+      const keys = getKeys(600);
+      await assert.rejects(datastore.delete(keys), (err: ChunkError) => {
+        assert.deepStrictEqual(err.keys, keys.slice(500));
+        assert.deepStrictEqual(err.completedKeys, keys.slice(0, 500));
+        assert(err.completedKeys.every(key => key instanceof entity.Key));
+        return true;
+      });
+    });
+  });
+});
@@ -58,6 +58,33 @@ describe('entity', () => {
     });
   });
 
+  describe('VERSION_SYMBOL', () => {
+    it('should export the symbol', () => {
+      assert.strictEqual(
+        testEntity.VERSION_SYMBOL.toString(),
+        'Symbol(VERSION)',
+      );
+    });
+  });
+
+  describe('CREATE_TIME_SYMBOL', () => {
+    it('should export the symbol', () => {
+      assert.strictEqual(
+        testEntity.CREATE_TIME_SYMBOL.toString(),
+        'Symbol(CREATE_TIME)',
+      );
+    });
+  });
+
+  describe('UPDATE_TIME_SYMBOL', () => {
+    it('should export the symbol', () => {
+      assert.strictEqual(
+        testEntity.UPDATE_TIME_SYMBOL.toString(),
+        'Symbol(UPDATE_TIME)',
+      );
+    });
+  });
+
   describe('Double', () => {
     it('should store the value', () => {
       const value = 8.3;
@@ -297,6 +324,29 @@ describe('entity', () => {
     });
   });
 
+  describe('Vector', () => {
+    it('should store a copy of the value', () => {
+      const value = [0.1, 0.2];
+      const vector = new testEntity.Vector(value);
+      assert.notStrictEqual(vector.value, value);
+      assert.deepStrictEqual(vector.value, value);
+      assert.deepStrictEqual(vector.toArray(), value);
+    });
+  });
+
+  describe('isDsVector', () => {
+    it('should correctly identify a Vector', () => {
+      const vector = new testEntity.Vector([0.1, 0.2]);
+      assert.strictEqual(testEntity.isDsVector(vector), true);
+    });
+
+    it('should correctly identify a homomorphic non-Vector', () => {
+      const vector = new testEntity.Vector([0.1, 0.2]);
+      const nonVector = Object.assign({}, vector);
+      assert.strictEqual(testEntity.isDsVector(nonVector), false);
+    });
+  });
+
   describe('Key', () => {
     it('should assign the namespace', () => {
       const namespace = 'NS';
@@ -760,6 +810,24 @@ describe('entity', () => {
       );
     });
 
+    it('should decode vectors', () => {
+      const valueProto = {
+        valueType: 'arrayValue',
+        meaning: 31,
+        excludeFromIndexes: true,
+        arrayValue: {
+          values: [
+            {valueType: 'doubleValue', doubleValue: 0.5},
+            {valueType: 'doubleValue', doubleValue: 1},
+          ],
+        },
+      };
+
+      const decodedValue = testEntity.decodeValueProto(valueProto);
+      assert(decodedValue instanceof testEntity.Vector);
+      assert.deepStrictEqual(decodedValue.value, [0.5, 1]);
+    });
+
     it('should return the value if no conversions are necessary', () => {
       const expectedValue = false;
 
@@ -876,6 +944,20 @@ describe('entity', () => {
       assert.deepStrictEqual(testEntity.encodeValue(value), expectedValueProto);
     });
 
+    it('should encode a Vector object', () => {
+      const value = new testEntity.Vector([0.5, 1]);
+
+      const expectedValueProto = {
+        arrayValue: {
+          values: [{doubleValue: 0.5}, {doubleValue: 1}],
+        },
+        meaning: 31,
+        excludeFromIndexes: true,
+      };
+
+      assert.deepStrictEqual(testEntity.encodeValue(value), expectedValueProto);
+    });
+
     it('should encode a date', () => {
       const value = new Date();
       const seconds = value.getTime() / 1000;
@@ -1191,6 +1273,56 @@ describe('entity', () => {
       assert.deepStrictEqual(ent, expectedResults);
     });
 
+    it('should attach the version of the entity', () => {
+      const results = [
+        {
+          entity: {key: {path: [{kind: 'Kind', name: 'name'}]}},
+          version: '42',
+        },
+      ];
+
+      const ent = testEntity.formatArray(results)[0];
+
+      assert.strictEqual(ent[testEntity.VERSION_SYMBOL], '42');
+    });
+
+    it('should attach the create and update times of the entity', () => {
+      const createTime = {seconds: '1700000000', nanos: 1000};
+      const updateTime = {seconds: '1700000005', nanos: 123456000};
+      const results = [
+        {
+          entity: {key: {path: [{kind: 'Kind', name: 'name'}]}},
+          createTime,
+          updateTime,
+        },
+      ];
+
+      const ent = testEntity.formatArray(results)[0];
+
+      assert.deepStrictEqual(ent[testEntity.CREATE_TIME_SYMBOL], {
+        seconds: 1700000000,
+        nanos: 1000,
+      });
+      assert.deepStrictEqual(ent[testEntity.UPDATE_TIME_SYMBOL], {
+        seconds: 1700000005,
+        nanos: 123456000,
+      });
+    });
+
+    it('should not attach missing times', () => {
+      const results = [
+        {
+          entity: {key: {path: [{kind: 'Kind', name: 'name'}]}},
+          createTime: null,
+        },
+      ];
+
+      const ent = testEntity.formatArray(results)[0];
+
+      assert.strictEqual(testEntity.CREATE_TIME_SYMBOL in ent, false);
+      assert.strictEqual(testEntity.UPDATE_TIME_SYMBOL in ent, false);
+    });
+
     describe('should pass `wrapNumbers` to entityFromEntityProto', () => {
       const results = [{entity: {}}];
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1687,6 +1819,40 @@ describe('entity', () => {
       assert.strictEqual(queryProto.endCursor, endVal);
       assert.strictEqual(queryProto.startCursor, startVal);
     });
+
+    it('should support a nearest neighbor search', () => {
+      const ds = new Datastore({projectId: 'project-id'});
+
+      const query = ds.createQuery('Kind1').findNearest({
+        vectorProperty: 'embedding',
+        queryVector: [0.5, 1],
+        distanceMeasure: 'COSINE',
+        limit: 5,
+        distanceResultProperty: 'distance',
+        distanceThreshold: 0.25,
+      });
+
+      assert.deepStrictEqual(testEntity.queryToQueryProto(query).findNearest, {
+        vectorProperty: {
+          name: 'embedding',
+        },
+        queryVector: {
+          arrayValue: {
+            values: [{doubleValue: 0.5}, {doubleValue: 1}],
+          },
+          meaning: 31,
+          excludeFromIndexes: true,
+        },
+        distanceMeasure: 'COSINE',
+        limit: {
+          value: 5,
+        },
+        distanceResultProperty: 'distance',
+        distanceThreshold: {
+          value: 0.25,
+        },
+      });
+    });
   });
 
   describe('UrlSafeKey', () => {
@@ -0,0 +1,87 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+import * as assert from 'assert';
+import {entity} from '../../src/entity';
+import {PropertyTransform} from '../../src/transform';
+import {buildPatchEntity} from '../../src/utils/entity/buildPatchEntity';
+
+describe('buildPatchEntity', () => {
+  const key = new entity.Key({path: ['Order', 'order1']});
+
+  it('should mask the patched and deleted properties', () => {
+    assert.deepStrictEqual(
+      buildPatchEntity({
+        key,
+        data: {status: 'shipped'},
+        deleteProperties: ['trackingId'],
+      }),
+      {
+        key,
+        method: 'update',
+        data: {status: 'shipped'},
+        propertyMask: ['status', 'trackingId'],
+      },
+    );
+  });
+
+  it('should write nested paths inside their parent', () => {
+    const patchEntity = buildPatchEntity({
+      key,
+      data: {'customer.name': 'Ada', 'customer.address.city': 'London'},
+    });
+    assert.deepStrictEqual(patchEntity.data, {
+      customer: {name: 'Ada', address: {city: 'London'}},
+    });
+    assert.deepStrictEqual(patchEntity.propertyMask, [
+      'customer.name',
+      'customer.address.city',
+    ]);
+  });
+
+  it('should leave transforms out of the mask', () => {
+    const increment = new PropertyTransform('increment', 1);
+    const patchEntity = buildPatchEntity({
+      key,
+      data: {views: increment, title: 'Home'},
+    });
+    assert.deepStrictEqual(patchEntity.data, {views: increment, title: 'Home'});
+    assert.deepStrictEqual(patchEntity.propertyMask, ['title']);
+  });
+
+  it('should throw if a property is patched and deleted', () => {
+    assert.throws(
+      () =>
+        buildPatchEntity({
+          key,
+          data: {status: 'new'},
+          deleteProperties: 'status',
+        }),
+      /The property "status" can only be patched once\./,
+    );
+  });
+
+  it('should throw if a property is patched along with its parent', () => {
+    assert.throws(
+      () =>
+        buildPatchEntity({
+          key,
+          data: {'customer.name': 'Ada'},
+          deleteProperties: ['customer'],
+        }),
+      /The property "customer.name" cannot be patched along with its parent "customer"\./,
+    );
+  });
+});
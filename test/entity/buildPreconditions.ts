@@ -0,0 +1,106 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+import * as assert from 'assert';
+import {entity} from '../../src/entity';
+import {ConflictError} from '../../src/errors';
+import {
+  buildPreconditions,
+  findConflicts,
+} from '../../src/utils/entity/buildPreconditions';
+import {google} from '../../protos/protos';
+
+describe('buildPreconditions', () => {
+  it('should leave a mutation without preconditions untouched', () => {
+    const mutation = {delete: {}};
+    buildPreconditions(mutation, {});
+    assert.deepStrictEqual(mutation, {delete: {}});
+  });
+
+  it('should add a base version', () => {
+    const mutation: google.datastore.v1.IMutation = {};
+    buildPreconditions(mutation, {ifVersion: 0});
+    assert.deepStrictEqual(mutation, {
+      baseVersion: 0,
+      conflictResolutionStrategy: 'SERVER_VALUE',
+    });
+  });
+
+  it('should add an update time', () => {
+    const mutation: google.datastore.v1.IMutation = {};
+    buildPreconditions(mutation, {ifUpdateTime: new Date(1234)});
+    assert.deepStrictEqual(mutation, {
+      updateTime: {seconds: 1, nanos: 234000000},
+      conflictResolutionStrategy: 'SERVER_VALUE',
+    });
+  });
+
+  it('should keep the precision of an update time read from Datastore', () => {
+    const mutation: google.datastore.v1.IMutation = {};
+    buildPreconditions(mutation, {
+      ifUpdateTime: {seconds: 1700000005, nanos: 123456},
+    });
+    assert.deepStrictEqual(mutation, {
+      updateTime: {seconds: 1700000005, nanos: 123456},
+      conflictResolutionStrategy: 'SERVER_VALUE',
+    });
+  });
+
+  it('should take the update time of a fetched entity', () => {
+    const updateTime = {seconds: '1700000005', nanos: 123456};
+    const [fetched] = entity.formatArray([
+      {
+        entity: {key: {path: [{kind: 'Kind', name: 'name'}]}},
+        updateTime,
+      },
+    ]);
+    const mutation: google.datastore.v1.IMutation = {};
+    buildPreconditions(mutation, {
+      ifUpdateTime: fetched[entity.UPDATE_TIME_SYMBOL],
+    });
+    assert.deepStrictEqual(mutation.updateTime, {
+      seconds: 1700000005,
+      nanos: 123456,
+    });
+  });
+});
+
+describe('findConflicts', () => {
+  const keys = [
+    new entity.Key({path: ['Kind', 'a']}),
+    new entity.Key({path: ['Kind', 'b']}),
+  ];
+
+  it('should return null without conflicts', () => {
+    assert.strictEqual(
+      findConflicts([{}, {conflictDetected: false}], keys),
+      null,
+    );
+  });
+
+  it('should name the conflicting keys', () => {
+    const error = findConflicts(
+      [{conflictDetected: true}, {}, {conflictDetected: true}],
+      keys,
+      1,
+    );
+    assert(error instanceof ConflictError);
+    assert.deepStrictEqual(error.keys, [keys[1]]);
+    assert.strictEqual(
+      error.message,
+      'A conflict was detected for "Kind/b". The stored entity no longer matches the expected version.',
+    );
+  });
+});
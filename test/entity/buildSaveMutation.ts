@@ -0,0 +1,60 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+import * as assert from 'assert';
+import {entity} from '../../src/entity';
+import {PropertyTransform} from '../../src/transform';
+import {buildSaveMutation} from '../../src/utils/entity/buildSaveMutation';
+
+describe('buildSaveMutation', () => {
+  const key = new entity.Key({path: ['Kind', 'name']});
+
+  it('should build the mutation of the method', () => {
+    const mutation = buildSaveMutation({key, data: {done: true}}, 'insert');
+    assert.deepStrictEqual(mutation, {
+      insert: {
+        key: entity.keyToKeyProto(key),
+        properties: {done: {booleanValue: true}},
+      },
+    });
+  });
+
+  it('should add the property mask and the preconditions', () => {
+    const mutation = buildSaveMutation(
+      {key, data: {done: true}, propertyMask: ['done'], ifVersion: '2'},
+      'update',
+    );
+    assert.deepStrictEqual(mutation.propertyMask, {paths: ['done']});
+    assert.strictEqual(mutation.baseVersion, '2');
+  });
+
+  it('should keep the other properties when only transforming', () => {
+    const mutation = buildSaveMutation(
+      {key, data: {views: new PropertyTransform('increment', 1)}},
+      'upsert',
+    );
+    assert.deepStrictEqual(mutation.propertyMask, {paths: []});
+    assert.strictEqual(mutation.propertyTransforms!.length, 1);
+    assert.deepStrictEqual(mutation.upsert!.properties, {});
+  });
+
+  it('should not mask a write with other properties', () => {
+    const mutation = buildSaveMutation(
+      {key, data: {done: true, views: new PropertyTransform('increment', 1)}},
+      'upsert',
+    );
+    assert.strictEqual(mutation.propertyMask, undefined);
+  });
+});
@@ -0,0 +1,64 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+import * as assert from 'assert';
+import {entity} from '../../src/entity';
+import {CommitApiResponse} from '../../src/request';
+import {buildWriteResults} from '../../src/utils/entity/buildWriteResults';
+
+describe('buildWriteResults', () => {
+  const keys = [
+    new entity.Key({path: ['Kind', 'a']}),
+    new entity.Key({path: ['Kind', 'b']}),
+  ];
+  const updateTime = {seconds: '1700000005', nanos: 123456000};
+
+  it('should add a write result for each mutation', () => {
+    const resp: CommitApiResponse = {
+      mutationResults: [{version: 3, createTime: updateTime, updateTime}, {}],
+    };
+    buildWriteResults(resp, keys);
+    const time = {seconds: 1700000005, nanos: 123456000};
+    assert.deepStrictEqual(resp.writeResults, [
+      {key: keys[0], version: '3', createTime: time, updateTime: time},
+      {key: keys[1]},
+    ]);
+  });
+
+  it('should add the write results after the ones of earlier mutations', () => {
+    const resp: CommitApiResponse = {
+      mutationResults: [{version: '1'}, {version: '2'}, {version: '3'}],
+    };
+    buildWriteResults(resp, keys.slice(0, 1));
+    buildWriteResults(resp, keys, 1);
+    assert.deepStrictEqual(resp.writeResults, [
+      {key: keys[0], version: '1'},
+      {key: keys[0], version: '2'},
+      {key: keys[1], version: '3'},
+    ]);
+  });
+
+  it('should skip mutations without a result', () => {
+    const resp: CommitApiResponse = {mutationResults: []};
+    buildWriteResults(resp, keys);
+    assert.deepStrictEqual(resp.writeResults, []);
+  });
+
+  it('should leave a response without mutation results untouched', () => {
+    const resp: CommitApiResponse = {};
+    buildWriteResults(resp, keys);
+    assert.deepStrictEqual(resp, {});
+  });
+});
@@ -0,0 +1,184 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {Status} from 'google-gax';
+import {
+  AbortedError,
+  AlreadyExistsError,
+  ContentionError,
+  Datastore,
+  DatastoreError,
+  MissingIndexError,
+  NotFoundError,
+  PreconditionFailedError,
+  TransactionExpiredError,
+} from '../src';
+import {toDatastoreError} from '../src/errors';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+const MISSING_INDEX_MESSAGE = [
+  '9 FAILED_PRECONDITION: no matching index found. recommended index is:',
+  '- kind: Task',
+  '  ancestor: yes',
+  '  properties:',
+  '  - name: done',
+  '  - name: priority',
+  '    direction: desc',
+  '',
+].join('\n');
+
+function serviceError(code: Status, message: string) {
+  return Object.assign(new Error(message), {code, details: message});
+}
+
+describe('errors', () => {
+  describe('toDatastoreError', () => {
+    it('should map the status of an error to its class', () => {
+      const expectations: Array<[Status, string, Function]> = [
+        [Status.NOT_FOUND, 'no entity to update', NotFoundError],
+        [Status.ALREADY_EXISTS, 'entity already exists', AlreadyExistsError],
+        [Status.ABORTED, 'too much contention', ContentionError],
+        [Status.FAILED_PRECONDITION, 'not ready', PreconditionFailedError],
+        [Status.FAILED_PRECONDITION, MISSING_INDEX_MESSAGE, MissingIndexError],
+        [
+          Status.INVALID_ARGUMENT,
+          'The referenced transaction has expired or is no longer valid.',
+          TransactionExpiredError,
+        ],
+      ];
+      for (const [code, message, errorClass] of expectations) {
+        const cause = serviceError(code, message);
+        const err = toDatastoreError(cause) as DatastoreError;
+        assert(err instanceof errorClass, errorClass.name);
+        assert.strictEqual(err.name, errorClass.name);
+        assert.strictEqual(err.message, message);
+        assert.strictEqual(err.code, code);
+        assert.strictEqual(err.details, message);
+        assert.strictEqual(err.cause, cause);
+      }
+    });
+
+    it('should leave other errors as they are', () => {
+      const errors = [
+        new Error('Error.'),
+        serviceError(Status.INVALID_ARGUMENT, 'invalid'),
+        serviceError(Status.UNAVAILABLE, 'unavailable'),
+      ];
+      for (const error of errors) {
+        assert.strictEqual(toDatastoreError(error), error);
+      }
+    });
+
+    it('should export the contention error as AbortedError', () => {
+      assert.strictEqual(AbortedError, ContentionError);
+    });
+
+    it('should parse the suggested index of a missing index', () => {
+      const err = toDatastoreError(
+        serviceError(Status.FAILED_PRECONDITION, MISSING_INDEX_MESSAGE),
+      ) as MissingIndexError;
+      assert(err instanceof PreconditionFailedError);
+      assert.deepStrictEqual(err.suggestedIndex, {
+        kind: 'Task',
+        ancestor: 'ALL_ANCESTORS',
+        properties: [
+          {name: 'done', direction: 'ASCENDING'},
+          {name: 'priority', direction: 'DESCENDING'},
+        ],
+      });
+    });
+  });
+
+  describe('requests', () => {
+    let datastore: Datastore;
+    let error: Error;
+
+    beforeEach(() => {
+      datastore = getInitializedDatastoreClient();
+      const dataClient = datastore.clients_.get('DatastoreClient')!;
+      const fail = (request: {}, options: {}, callback: Function) =>
+        callback(error);
+      dataClient.lookup = fail;
+      dataClient.runQuery = fail;
+      dataClient.commit = fail;
+    });
+
+    it('should report the keys of a lookup', async () => {
+      error = serviceError(Status.NOT_FOUND, 'database not found');
+      const key = datastore.key(['Task', 'one']);
+      await assert.rejects(datastore.get(key), (err: NotFoundError) => {
+        assert(err instanceof NotFoundError);
+        assert.deepStrictEqual(err.keys[0].path, ['Task', 'one']);
+        return true;
+      });
+    });
+
+    it('should report the keys of a commit', async () => {
+      error = serviceError(Status.ALREADY_EXISTS, 'entity already exists');
+      const key = datastore.key(['Task', 'one']);
+      await assert.rejects(
+        datastore.insert({key, data: {}}),
+        (err: AlreadyExistsError) => {
+          assert(err instanceof AlreadyExistsError);
+          assert.deepStrictEqual(err.keys[0].path, ['Task', 'one']);
+          assert.strictEqual(err.keys[0].namespace, 'namespace');
+          return true;
+        },
+      );
+    });
+
+    it('should report the query of a missing index', async () => {
+      error = serviceError(Status.FAILED_PRECONDITION, MISSING_INDEX_MESSAGE);
+      const query = datastore.createQuery('Task').order('priority', {
+        descending: true,
+      });
+      await assert.rejects(
+        datastore.runQuery(query),
+        (err: MissingIndexError) => {
+          assert(err instanceof MissingIndexError);
+          assert.strictEqual(err.query, query);
+          assert.strictEqual(err.suggestedIndex!.kind, 'Task');
+          return true;
+        },
+      );
+    });
+
+    it('should report the use of an expired transaction', async () => {
+      const dataClient = datastore.clients_.get('DatastoreClient')!;
+      dataClient.beginTransaction = (
+        request: {},
+        options: {},
+        callback: Function,
+      ) => callback(null, {transaction: 'transaction-id'});
+      dataClient.rollback = (request: {}, options: {}, callback: Function) =>
+        callback(null, {});
+      const transaction = datastore.transaction();
+      await transaction.run();
+      await transaction.rollback();
+      await assert.rejects(
+        transaction.commit(),
+        (err: TransactionExpiredError) => {
+          assert(err instanceof TransactionExpiredError);
+          assert.strictEqual(
+            err.message,
+            'This transaction has already expired.',
+          );
+          return true;
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,273 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {Datastore} from '../src';
+import {entity} from '../src/entity';
+import {Cursor, GqlQuery} from '../src/gql-query';
+import * as protos from '../protos/protos';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+describe('GqlQuery', () => {
+  const SCOPE = {} as Datastore;
+  const NAMESPACE = 'Namespace';
+  const QUERY_STRING = 'SELECT * FROM Task WHERE done = @done';
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let query: any;
+
+  beforeEach(() => {
+    query = new GqlQuery(SCOPE, NAMESPACE, QUERY_STRING);
+  });
+
+  describe('instantiation', () => {
+    it('should localize the scope, namespace and query string', () => {
+      assert.strictEqual(query.scope, SCOPE);
+      assert.strictEqual(query.namespace, NAMESPACE);
+      assert.strictEqual(query.queryString, QUERY_STRING);
+    });
+
+    it('should allow literals by default', () => {
+      assert.strictEqual(query.allowLiterals, true);
+      const strictQuery = new GqlQuery(SCOPE, null, QUERY_STRING, {
+        allowLiterals: false,
+      });
+      assert.strictEqual(strictQuery.allowLiterals, false);
+    });
+
+    it('should copy the bindings', () => {
+      const namedBindings = {done: false};
+      const positionalBindings = [1];
+      const query = new GqlQuery(SCOPE, null, QUERY_STRING, {
+        namedBindings,
+        positionalBindings,
+      });
+      assert.notStrictEqual(query.namedBindings, namedBindings);
+      assert.deepStrictEqual(query.namedBindings, namedBindings);
+      assert.notStrictEqual(query.positionalBindings, positionalBindings);
+      assert.deepStrictEqual(query.positionalBindings, positionalBindings);
+    });
+  });
+
+  describe('toProto', () => {
+    it('should encode named and positional bindings', () => {
+      const key = new entity.Key({path: ['Parent', 'p1']});
+      const query = new GqlQuery(SCOPE, null, QUERY_STRING, {
+        namedBindings: {
+          done: false,
+          parent: key,
+          cursor: new Cursor('abc'),
+        },
+        positionalBindings: [new entity.Int('9007199254740993'), 1.5],
+      });
+      assert.deepStrictEqual(query.toProto(), {
+        queryString: QUERY_STRING,
+        allowLiterals: true,
+        namedBindings: {
+          done: {value: {booleanValue: false}},
+          parent: {value: {keyValue: entity.keyToKeyProto(key)}},
+          cursor: {cursor: 'abc'},
+        },
+        positionalBindings: [
+          {value: {integerValue: '9007199254740993'}},
+          {value: {doubleValue: 1.5}},
+        ],
+      });
+    });
+
+    it('should throw for values that cannot be encoded', () => {
+      query.namedBindings.done = () => {};
+      assert.throws(() => query.toProto(), /Unsupported field value/);
+    });
+  });
+
+  describe('run', () => {
+    it('should call the parent instance runQuery correctly', done => {
+      const options = {};
+      const callback = () => {};
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      query.scope.runQuery = function (...args: any[]) {
+        assert.strictEqual(this, query.scope);
+        assert.strictEqual(args[0], query);
+        assert.strictEqual(args[1], options);
+        assert.strictEqual(args[2], callback);
+        done();
+      };
+      query.run(options, callback);
+    });
+  });
+
+  describe('runStream', () => {
+    it('should call the parent instance runQueryStream correctly', () => {
+      const options = {};
+      const stream = {};
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      query.scope.runQueryStream = function (...args: any[]) {
+        assert.strictEqual(this, query.scope);
+        assert.strictEqual(args[0], query);
+        assert.strictEqual(args[1], options);
+        return stream;
+      };
+      assert.strictEqual(query.runStream(options), stream);
+    });
+  });
+
+  describe('running against the generated layer', () => {
+    const clientName = 'DatastoreClient';
+    let datastore: Datastore;
+    let requests: Array<{[key: string]: {}}>;
+
+    beforeEach(() => {
+      datastore = getInitializedDatastoreClient();
+      requests = [];
+    });
+
+    function mockGapicFunction(
+      method: string,
+      responses: Array<{[key: string]: {}}>,
+    ) {
+      const dataClient = datastore.clients_.get(clientName)!;
+      dataClient[method] = (
+        request: {[key: string]: {}},
+        options: {},
+        callback: (err: Error | null, resp: {}) => void,
+      ) => {
+        requests.push(request);
+        callback(null, responses.shift()!);
+      };
+    }
+
+    it('should send a gqlQuery to runQuery', async () => {
+      mockGapicFunction('runQuery', [
+        {
+          batch: {
+            entityResults: [],
+            moreResults: 'NO_MORE_RESULTS',
+          },
+        },
+      ]);
+      const query = datastore.createGqlQuery(QUERY_STRING, {
+        namedBindings: {done: true},
+      });
+      await datastore.runQuery(query);
+      assert.deepStrictEqual(requests, [
+        {
+          partitionId: {namespaceId: 'namespace'},
+          gqlQuery: {
+            queryString: QUERY_STRING,
+            allowLiterals: true,
+            namedBindings: {done: {value: {booleanValue: true}}},
+            positionalBindings: [],
+          },
+          projectId: 'project-id',
+        },
+      ]);
+    });
+
+    it('should continue a query that is not finished', async () => {
+      const entityResult = {
+        entity: {
+          key: {path: [{kind: 'Task', name: 't1', idType: 'name'}]},
+          properties: {},
+        },
+      };
+      const parsedQuery = {
+        kind: [{name: 'Task'}],
+        offset: 3,
+        limit: {value: 5},
+      };
+      mockGapicFunction('runQuery', [
+        {
+          query: parsedQuery,
+          batch: {
+            entityResults: [entityResult, entityResult],
+            endCursor: Buffer.from('end'),
+            skippedResults: 3,
+            moreResults: 'NOT_FINISHED',
+          },
+        },
+        {
+          batch: {
+            entityResults: [entityResult],
+            moreResults: 'NO_MORE_RESULTS',
+          },
+        },
+      ]);
+      const [entities] = await datastore
+        .createGqlQuery('SELECT * FROM Task LIMIT 5 OFFSET 3')
+        .run();
+      assert.strictEqual(entities.length, 3);
+      assert.strictEqual(requests.length, 2);
+      assert.strictEqual(requests[1].gqlQuery, undefined);
+      assert.deepStrictEqual(requests[1].query, {
+        kind: [{name: 'Task'}],
+        offset: 0,
+        limit: {value: 3},
+        startCursor: Buffer.from('end'),
+      });
+    });
+
+    it('should send a gqlQuery to runAggregationQuery', async () => {
+      mockGapicFunction('runAggregationQuery', [
+        {
+          batch: {
+            aggregationResults: [
+              {
+                aggregateProperties: {
+                  total: {integerValue: '3', valueType: 'integerValue'},
+                },
+              },
+            ],
+          },
+        },
+      ]);
+      const query = datastore.createGqlQuery(
+        'SELECT COUNT(*) AS total FROM Task',
+      );
+      const [results] = await datastore.runAggregationQuery(query);
+      assert.deepStrictEqual(results, [{total: 3}]);
+      assert.strictEqual(requests[0].aggregationQuery, undefined);
+      assert.deepStrictEqual(requests[0].gqlQuery, {
+        queryString: 'SELECT COUNT(*) AS total FROM Task',
+        allowLiterals: true,
+        namedBindings: {},
+        positionalBindings: [],
+      });
+    });
+
+    it('should run a gqlQuery inside a transaction', async () => {
+      mockGapicFunction('runQuery', [
+        {
+          transaction: Buffer.from('tx'),
+          batch: {moreResults: 'NO_MORE_RESULTS'},
+        },
+      ]);
+      const transaction = datastore.transaction();
+      const query = transaction.createGqlQuery(QUERY_STRING, {
+        namedBindings: {done: false},
+      });
+      assert.strictEqual(query.scope, transaction);
+      await transaction.runQuery(query);
+      const request =
+        requests[0] as protos.google.datastore.v1.IRunQueryRequest;
+      assert.deepStrictEqual(request.readOptions, {
+        consistencyType: 'newTransaction',
+        newTransaction: {},
+      });
+      assert.strictEqual(request.gqlQuery!.queryString, QUERY_STRING);
+      assert.deepStrictEqual(transaction.id, Buffer.from('tx'));
+    });
+  });
+});
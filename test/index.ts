@@ -28,7 +28,7 @@ import {
   EntityObject,
   Entities,
 } from '../src/entity';
-import {RequestCallback, RequestConfig} from '../src/request';
+import {RequestCallback, RequestConfig, RequestOptions} from '../src/request';
 import {ExplainOptions, ExplainMetrics, RunQueryInfo} from '../src/query';
 import * as is from 'is';
 import * as sinon from 'sinon';
@@ -43,6 +43,9 @@ const async = require('async');
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const fakeEntityInit: any = {
   KEY_SYMBOL: Symbol('fake key symbol'),
+  VERSION_SYMBOL: Symbol('fake version symbol'),
+  CREATE_TIME_SYMBOL: Symbol('fake create time symbol'),
+  UPDATE_TIME_SYMBOL: Symbol('fake update time symbol'),
   Int: class {
     value: {};
     constructor(value: {}) {
@@ -73,6 +76,16 @@ const fakeEntityInit: any = {
   isDsGeoPoint(...args: any) {
     this.calledWith_ = args;
   },
+  Vector: class {
+    value: {};
+    constructor(value: {}) {
+      this.value = value;
+    }
+  },
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  isDsVector(...args: any) {
+    this.calledWith_ = args;
+  },
   Key: class {
     calledWith_: IArguments;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -88,6 +101,7 @@ const fakeEntityInit: any = {
   keyFromKeyProto: entity.keyFromKeyProto,
   keyToKeyProto: entity.keyToKeyProto,
   encodeValue: entity.encodeValue,
+  decodeValueProto: entity.decodeValueProto,
   entityToEntityProto: entity.entityToEntityProto,
   addExcludeFromIndexes: entity.addExcludeFromIndexes,
   findLargeProperties_: entity.findLargeProperties_,
@@ -200,7 +214,13 @@ async.each(
             GoogleAuth: fakeGoogleAuth,
           },
           'google-gax': fakeGoogleGax,
-          './utils/entity/buildEntityProto': buildEntityProtoModule,
+          './utils/entity/buildSaveMutation': proxyquire(
+            '../src/utils/entity/buildSaveMutation.js',
+            {
+              '../../entity.js': {entity: fakeEntity},
+              './buildEntityProto': buildEntityProtoModule,
+            },
+          ),
         }).Datastore;
       });
 
@@ -565,6 +585,78 @@ async.each(
         });
       });
 
+      describe('property transforms', () => {
+        it('should expose transform builders', () => {
+          const transforms = [
+            [Datastore.increment(1), 'increment', 1],
+            [Datastore.maximum(2), 'maximum', 2],
+            [Datastore.minimum(3), 'minimum', 3],
+            [Datastore.serverTimestamp(), 'setToServerValue', undefined],
+            [Datastore.arrayUnion(['a']), 'appendMissingElements', ['a']],
+            [Datastore.arrayRemove(['b']), 'removeAllFromArray', ['b']],
+          ] as const;
+          transforms.forEach(([transform, type, value]) => {
+            assert(transform instanceof ds.PropertyTransform);
+            assert.strictEqual(transform.type, type);
+            assert.deepStrictEqual(transform.value, value);
+          });
+        });
+
+        it('should also be on the prototype', () => {
+          assert.strictEqual(datastore.increment(1).type, 'increment');
+          assert.strictEqual(datastore.maximum(1).type, 'maximum');
+          assert.strictEqual(datastore.minimum(1).type, 'minimum');
+          assert.strictEqual(
+            datastore.serverTimestamp().type,
+            'setToServerValue',
+          );
+          assert.strictEqual(
+            datastore.arrayUnion([]).type,
+            'appendMissingElements',
+          );
+          assert.strictEqual(
+            datastore.arrayRemove([]).type,
+            'removeAllFromArray',
+          );
+        });
+      });
+
+      describe('vector', () => {
+        it('should expose Vector builder', () => {
+          const aVector = [0.1, 0.2];
+          const vector = Datastore.vector(aVector);
+          assert.strictEqual(vector.value, aVector);
+        });
+
+        it('should also be on the prototype', () => {
+          const aVector = [0.1, 0.2];
+          const vector = datastore.vector(aVector);
+          assert.strictEqual(vector.value, aVector);
+        });
+      });
+
+      describe('isVector', () => {
+        it('should pass value to entity', () => {
+          const value = [0.1, 0.2];
+          let called = false;
+          const saved = fakeEntity.isDsVector;
+          fakeEntity.isDsVector = (arg: {}) => {
+            assert.strictEqual(arg, value);
+            called = true;
+            return false;
+          };
+          assert.strictEqual(datastore.isVector(value), false);
+          assert.strictEqual(called, true);
+          fakeEntity.isDsVector = saved;
+        });
+
+        it('should expose Vector identifier', () => {
+          const something = {};
+          Datastore.isVector(something);
+          assert.strictEqual(fakeEntity.calledWith_[0], something);
+        });
+      });
+
       describe('isInt', () => {
         it('should pass value to entity', () => {
           const value = 42;
@@ -619,6 +711,42 @@ async.each(
         });
       });
 
+      describe('VERSION', () => {
+        it('should expose the VERSION symbol', () => {
+          assert.strictEqual(Datastore.VERSION, fakeEntity.VERSION_SYMBOL);
+        });
+
+        it('should also be on the prototype', () => {
+          assert.strictEqual(datastore.VERSION, Datastore.VERSION);
+        });
+      });
+
+      describe('CREATE_TIME', () => {
+        it('should expose the CREATE_TIME symbol', () => {
+          assert.strictEqual(
+            Datastore.CREATE_TIME,
+            fakeEntity.CREATE_TIME_SYMBOL,
+          );
+        });
+
+        it('should also be on the prototype', () => {
+          assert.strictEqual(datastore.CREATE_TIME, Datastore.CREATE_TIME);
+        });
+      });
+
+      describe('UPDATE_TIME', () => {
+        it('should expose the UPDATE_TIME symbol', () => {
+          assert.strictEqual(
+            Datastore.UPDATE_TIME,
+            fakeEntity.UPDATE_TIME_SYMBOL,
+          );
+        });
+
+        it('should also be on the prototype', () => {
+          assert.strictEqual(datastore.UPDATE_TIME, Datastore.UPDATE_TIME);
+        });
+      });
+
       describe('MORE_RESULTS_AFTER_CURSOR', () => {
         it('should expose a MORE_RESULTS_AFTER_CURSOR helper', () => {
           assert.strictEqual(
@@ -696,6 +824,46 @@ async.each(
         });
       });
 
+      describe('createGqlQuery', () => {
+        const QUERY_STRING = 'SELECT * FROM Kind';
+
+        it('should return a GqlQuery object', () => {
+          const namespace = 'namespace';
+          const options = {namedBindings: {a: 1}};
+          const query = datastore.createGqlQuery(
+            namespace,
+            QUERY_STRING,
+            options,
+          );
+          assert(query instanceof ds.GqlQuery);
+          assert.strictEqual(query.scope, datastore);
+          assert.strictEqual(query.namespace, namespace);
+          assert.strictEqual(query.queryString, QUERY_STRING);
+          assert.deepStrictEqual(query.namedBindings, options.namedBindings);
+        });
+
+        it('should include the default namespace', () => {
+          const query = datastore.createGqlQuery(QUERY_STRING, {
+            allowLiterals: false,
+          });
+          assert.strictEqual(query.namespace, datastore.namespace);
+          assert.strictEqual(query.queryString, QUERY_STRING);
+          assert.strictEqual(query.allowLiterals, false);
+        });
+      });
+
+      describe('cursor', () => {
+        it('should expose Cursor builder', () => {
+          const cursor = Datastore.cursor('abc');
+          assert.strictEqual(cursor.value, 'abc');
+        });
+
+        it('should also be on the prototype', () => {
+          const cursor = datastore.cursor('abc');
+          assert.strictEqual(cursor.value, 'abc');
+        });
+      });
+
       describe('export', () => {
         it('should accept a bucket string destination', done => {
           const bucket = 'bucket';
@@ -2061,6 +2229,218 @@ async.each(
           );
         });
 
+        it('should send property transforms', done => {
+          datastore.request_ = (config: RequestConfig) => {
+            const mutation = config.reqOpts!.mutations![0];
+            assert.deepStrictEqual(mutation.upsert!.properties, {
+              name: {stringValue: 'Google'},
+              stats: {entityValue: {properties: {}}},
+            });
+            assert.deepStrictEqual(mutation.propertyTransforms, [
+              {property: 'updatedAt', setToServerValue: 'REQUEST_TIME'},
+              {property: 'stats.views', increment: {integerValue: '1'}},
+              {
+                property: 'tags',
+                appendMissingElements: {values: [{stringValue: 'new'}]},
+              },
+            ]);
+            assert.strictEqual(mutation.propertyMask, undefined);
+            done();
+          };
+
+          datastore.save(
+            {
+              key,
+              data: {
+                name: 'Google',
+                updatedAt: Datastore.serverTimestamp(),
+                stats: {views: Datastore.increment(1)},
+              },
+              transforms: {tags: Datastore.arrayUnion(['new'])},
+            },
+            assert.ifError,
+          );
+        });
+
+        it('should leave other properties when only saving transforms', done => {
+          datastore.request_ = (config: RequestConfig) => {
+            const mutation = config.reqOpts!.mutations![0];
+            assert.deepStrictEqual(mutation.upsert!.properties, {});
+            assert.deepStrictEqual(mutation.propertyTransforms, [
+              {property: 'views', increment: {integerValue: '1'}},
+            ]);
+            assert.deepStrictEqual(mutation.propertyMask, {paths: []});
+            done();
+          };
+
+          datastore.save(
+            {key, data: [{name: 'views', value: datastore.increment(1)}]},
+            assert.ifError,
+          );
+        });
+
+        it('should not alter the provided data object with transforms', done => {
+          const data = {views: Datastore.increment(1)};
+
+          datastore.request_ = () => {
+            assert.strictEqual(
+              data.views instanceof ds.PropertyTransform,
+              true,
+            );
+            done();
+          };
+
+          datastore.save({key, data}, assert.ifError);
+        });
+
+        it('should throw if a transform is not recognized', () => {
+          assert.throws(() => {
+            datastore.save(
+              {key, data: {}, transforms: {views: 1}},
+              assert.ifError,
+            );
+          }, /The transform for "views" is not recognized\./);
+        });
+
+        it('should decode the transform results', done => {
+          const response = {
+            mutationResults: [
+              {
+                transformResults: [
+                  {valueType: 'integerValue', integerValue: '43'},
+                  {
+                    valueType: 'timestampValue',
+                    timestampValue: {seconds: '1', nanos: 0},
+                  },
+                ],
+              },
+            ],
+          };
+
+          datastore.request_ = (config: RequestConfig, callback: Function) => {
+            callback(null, response);
+          };
+
+          datastore.save(
+            {
+              key,
+              data: {
+                views: Datastore.increment(1),
+                updatedAt: Datastore.serverTimestamp(),
+              },
+            },
+            (err: Error, apiResponse: Any) => {
+              assert.ifError(err);
+              assert.deepStrictEqual(
+                apiResponse.mutationResults[0].transforms,
+                {
+                  views: 43,
+                  updatedAt: new Date(1000),
+                },
+              );
+              assert.strictEqual(apiResponse, response);
+              done();
+            },
+          );
+        });
+
+        it('should save with preconditions', done => {
+          datastore.request_ = (config: RequestConfig) => {
+            const mutations = config.reqOpts!.mutations!;
+            assert.strictEqual(mutations[0].baseVersion, '12');
+            assert.strictEqual(
+              mutations[0].conflictResolutionStrategy,
+              'SERVER_VALUE',
+            );
+            assert.deepStrictEqual(mutations[1].updateTime, {
+              seconds: 2,
+              nanos: 0,
+            });
+            assert.strictEqual(
+              mutations[1].conflictResolutionStrategy,
+              'SERVER_VALUE',
+            );
+            assert.strictEqual(
+              mutations[2].conflictResolutionStrategy,
+              undefined,
+            );
+            done();
+          };
+
+          datastore.save(
+            [
+              {key, data: {}, ifVersion: '12'},
+              {key, data: {}, ifUpdateTime: new Date(2000)},
+              {key, data: {}},
+            ],
+            assert.ifError,
+          );
+        });
+
+        it('should throw if both preconditions are provided', () => {
+          assert.throws(() => {
+            datastore.save(
+              {key, data: {}, ifVersion: 1, ifUpdateTime: new Date()},
+              assert.ifError,
+            );
+          }, /Only one of ifVersion and ifUpdateTime can be provided\./);
+        });
+
+        it('should return a ConflictError naming the key', done => {
+          const response = {
+            mutationResults: [{conflictDetected: true}],
+          };
+
+          datastore.request_ = (config: RequestConfig, callback: Function) => {
+            callback(null, response);
+          };
+
+          datastore.save(
+            {key, data: {}, ifVersion: 1},
+            (err: Error, apiResponse: Any) => {
+              assert(err instanceof ds.ConflictError);
+              assert.strictEqual(err.key, key);
+              assert.strictEqual(
+                err.message,
+                'A conflict was detected for "Company/123". The stored entity no longer matches the expected version.',
+              );
+              assert.strictEqual(apiResponse, response);
+              done();
+            },
+          );
+        });
+
+        it('should return the write result of each entity', done => {
+          const otherKey = new entity.Key({path: ['Company', 'other']});
+          const updateTime = {seconds: '1700000005', nanos: 123456000};
+          const response = {
+            mutationResults: [
+              {version: '7', createTime: updateTime, updateTime},
+              {version: '8', updateTime},
+            ],
+          };
+
+          datastore.request_ = (config: RequestConfig, callback: Function) => {
+            callback(null, response);
+          };
+
+          datastore.save(
+            [
+              {key, data: {}},
+              {key: otherKey, data: {}},
+            ],
+            (err: Error, apiResponse: Any) => {
+              assert.ifError(err);
+              const time = {seconds: 1700000005, nanos: 123456000};
+              assert.deepStrictEqual(apiResponse.writeResults, [
+                {key, version: '7', createTime: time, updateTime: time},
+                {key: otherKey, version: '8', updateTime: time},
+              ]);
+              done();
+            },
+          );
+        });
+
         it('should assign ID on keys without them', done => {
           const incompleteKey = new entity.Key({path: ['Incomplete']});
           const incompleteKey2 = new entity.Key({path: ['Incomplete']});
@@ -2184,6 +2564,118 @@ async.each(
         });
       });
 
+      describe('patch', () => {
+        const key = new entity.Key({namespace: 'ns', path: ['Company', 1]});
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        let isDsKey: any;
+
+        beforeEach(() => {
+          isDsKey = fakeEntity.isDsKey;
+          fakeEntity.isDsKey = entity.isDsKey;
+        });
+
+        afterEach(() => {
+          fakeEntity.isDsKey = isDsKey;
+        });
+
+        it('should save the patched properties with a property mask', done => {
+          datastore.save = (
+            entityObject: Entity,
+            gaxOptions: {},
+            callback: Function,
+          ) => {
+            assert.deepStrictEqual(entityObject, {
+              key,
+              method: 'upsert',
+              ifVersion: '3',
+              data: {rating: 10, address: {city: 'Austin'}},
+              propertyMask: ['rating', 'address.city', 'legacyId'],
+            });
+            assert.deepStrictEqual(gaxOptions, {timeout: 5});
+            callback();
+          };
+
+          datastore.patch(
+            key,
+            {rating: 10, 'address.city': 'Austin'},
+            {
+              deleteProperties: 'legacyId',
+              method: 'upsert',
+              ifVersion: '3',
+              gaxOptions: {timeout: 5},
+            },
+            done,
+          );
+        });
+
+        it('should patch multiple entities', done => {
+          const otherKey = new entity.Key({path: ['Company', 2]});
+
+          datastore.save = (entities: Entity[], callback: Function) => {
+            assert.deepStrictEqual(entities, [
+              {
+                key,
+                method: 'update',
+                data: {rating: 10},
+                propertyMask: ['rating'],
+              },
+              {
+                key: otherKey,
+                method: 'update',
+                data: {},
+                propertyMask: ['rating'],
+              },
+            ]);
+            callback();
+          };
+
+          datastore.patch(
+            [
+              {key, data: {rating: 10}},
+              {key: otherKey, deleteProperties: ['rating']},
+            ],
+            done,
+          );
+        });
+
+        it('should send the property mask with the mutation', done => {
+          datastore.request_ = (config: RequestConfig) => {
+            const mutation = config.reqOpts!.mutations![0];
+            assert.deepStrictEqual(mutation.update!.properties, {
+              views: {integerValue: '4'},
+            });
+            assert.deepStrictEqual(mutation.propertyMask, {
+              paths: ['views', 'draft'],
+            });
+            done();
+          };
+
+          datastore.patch(
+            key,
+            {views: 4},
+            {deleteProperties: ['draft']},
+            assert.ifError,
+          );
+        });
+
+        it('should not mask the properties of transforms', done => {
+          datastore.request_ = (config: RequestConfig) => {
+            const mutation = config.reqOpts!.mutations![0];
+            assert.deepStrictEqual(mutation.propertyMask, {paths: ['title']});
+            assert.deepStrictEqual(mutation.propertyTransforms, [
+              {property: 'views', increment: {integerValue: '1'}},
+            ]);
+            done();
+          };
+
+          datastore.patch(
+            key,
+            {title: 'Home', views: Datastore.increment(1)},
+            assert.ifError,
+          );
+        });
+      });
+
       describe('upsert', () => {
         afterEach(() => {
           sandbox.restore();
@@ -2532,6 +3024,64 @@ async.each(
             SECOND_DATABASE_ID,
           );
         });
+
+        describe('database', () => {
+          beforeEach(() => {
+            googleAuthOverride = (options: DatastoreOptions) => ({
+              getProjectId(callback?: Function) {
+                if (callback) {
+                  callback(null, options.projectId);
+                  return;
+                }
+                return Promise.resolve(options.projectId);
+              },
+            });
+            datastore = new Datastore({
+              projectId: PROJECT_ID,
+              namespace: NAMESPACE,
+            });
+          });
+
+          it('should share the clients, auth and middleware', () => {
+            const database = datastore.database(SECOND_DATABASE_ID);
+            assert(database instanceof Datastore);
+            assert.notStrictEqual(database, datastore);
+            assert.strictEqual(database.datastore, database);
+            assert.strictEqual(database.clients_, datastore.clients_);
+            assert.strictEqual(database.auth, datastore.auth);
+            assert.strictEqual(database.middleware_, datastore.middleware_);
+            assert.strictEqual(database.namespace, NAMESPACE);
+            assert.strictEqual(database.getDatabaseId(), SECOND_DATABASE_ID);
+            assert.strictEqual(datastore.getDatabaseId(), undefined);
+          });
+
+          it('should use the project of the options', async () => {
+            const database = datastore.database(SECOND_DATABASE_ID, {
+              projectId: 'other-project',
+            });
+            assert.strictEqual(database.clients_, datastore.clients_);
+            assert.strictEqual(database.auth, datastore.auth);
+            assert.strictEqual(await database.getProjectId(), 'other-project');
+            assert.strictEqual(await datastore.getProjectId(), PROJECT_ID);
+          });
+
+          it('should send requests to the database', done => {
+            const database = datastore.database(SECOND_DATABASE_ID, {
+              projectId: 'other-project',
+            });
+            datastore.clients_.set('DatastoreClient', {
+              lookup(reqOpts: RequestOptions, gaxOpts: {}, callback: Function) {
+                assert.strictEqual(reqOpts.databaseId, SECOND_DATABASE_ID);
+                assert.strictEqual(reqOpts.projectId, 'other-project');
+                callback();
+              },
+            });
+            database.request_(
+              {client: 'DatastoreClient', method: 'lookup', reqOpts: {}},
+              done,
+            );
+          });
+        });
       });
 
       describe('Query Profiling', () => {
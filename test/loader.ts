@@ -0,0 +1,213 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {Datastore, Loader} from '../src';
+import {google} from '../protos/protos';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type LookupRequest = any;
+type Callback = (err: Error | null, resp?: {}) => void;
+
+describe('Loader', () => {
+  let datastore: Datastore;
+  let loader: Loader;
+  let lookups: LookupRequest[];
+  let lookupError: Error | null;
+
+  beforeEach(() => {
+    datastore = getInitializedDatastoreClient();
+    loader = datastore.loader();
+    lookups = [];
+    lookupError = null;
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    // Every key is found, except the ones named `missing`.
+    dataClient.lookup = (
+      request: LookupRequest,
+      options: {},
+      callback: Callback,
+    ) => {
+      lookups.push(request);
+      if (lookupError) {
+        setImmediate(callback, lookupError);
+        return;
+      }
+      const found = request.keys
+        .filter(
+          (key: google.datastore.v1.IKey) =>
+            key.path![key.path!.length - 1].name !== 'missing',
+        )
+        .map((key: google.datastore.v1.IKey) => ({
+          entity: {
+            key: {
+              partitionId: key.partitionId,
+              path: key.path!.map(element =>
+                Object.assign({idType: 'name'}, element),
+              ),
+            },
+            properties: {
+              name: {
+                valueType: 'stringValue',
+                stringValue: key.path![key.path!.length - 1].name,
+              },
+            },
+          },
+        }));
+      setImmediate(callback, null, {found, missing: []});
+    };
+    dataClient.beginTransaction = (
+      request: {},
+      options: {},
+      callback: Callback,
+    ) => setImmediate(callback, null, {transaction: 'transaction-id'});
+    dataClient.commit = (request: {}, options: {}, callback: Callback) =>
+      setImmediate(callback, null, {mutationResults: []});
+  });
+
+  function getLookedUpNames(lookup: LookupRequest) {
+    return lookup.keys.map(
+      (key: google.datastore.v1.IKey) => key.path![key.path!.length - 1].name,
+    );
+  }
+
+  it('should merge the calls of a tick into one lookup', async () => {
+    const [[one], [two], [three]] = await Promise.all([
+      loader.get(datastore.key(['Task', 'one'])),
+      loader.get(datastore.key(['Task', 'two'])),
+      Promise.resolve().then(() =>
+        loader.get(datastore.key(['Task', 'three'])),
+      ),
+    ]);
+    assert.strictEqual(one.name, 'one');
+    assert.strictEqual(two.name, 'two');
+    assert.strictEqual(three.name, 'three');
+    assert.strictEqual(lookups.length, 1);
+    assert.deepStrictEqual(getLookedUpNames(lookups[0]), [
+      'one',
+      'two',
+      'three',
+    ]);
+  });
+
+  it('should look up a key requested twice once', async () => {
+    const [[first], [tasks]] = await Promise.all([
+      loader.get(datastore.key(['Task', 'one'])),
+      loader.get([
+        datastore.key(['Task', 'two']),
+        datastore.key(['Task', 'one']),
+      ]),
+    ]);
+    assert.strictEqual(first.name, 'one');
+    assert.deepStrictEqual(
+      tasks.map((task: {name: string}) => task.name),
+      ['two', 'one'],
+    );
+    assert.deepStrictEqual(getLookedUpNames(lookups[0]), ['one', 'two']);
+  });
+
+  it('should leave out the entities which are not found', async () => {
+    const [[missing], [tasks]] = await Promise.all([
+      loader.get(datastore.key(['Task', 'missing'])),
+      loader.get([
+        datastore.key(['Task', 'one']),
+        datastore.key(['Task', 'missing']),
+      ]),
+    ]);
+    assert.strictEqual(missing, undefined);
+    assert.deepStrictEqual(
+      tasks.map((task: {name: string}) => task.name),
+      ['one'],
+    );
+  });
+
+  it('should align the results of a call with its keys', async () => {
+    const keys = [
+      datastore.key(['Task', 'missing']),
+      datastore.key(['Task', 'one']),
+    ];
+    const [[aligned, info], [unaligned]] = await Promise.all([
+      loader.get(keys, {alignResults: true}),
+      loader.get(keys),
+    ]);
+    assert.strictEqual(lookups.length, 1);
+    assert.strictEqual(aligned[0], undefined);
+    assert.strictEqual(aligned[1].name, 'one');
+    assert.deepStrictEqual(info!.missing, [keys[0]]);
+    assert.deepStrictEqual(
+      unaligned.map((task: {name: string}) => task.name),
+      ['one'],
+    );
+  });
+
+  it('should look up the calls of later ticks separately', async () => {
+    await loader.get(datastore.key(['Task', 'one']));
+    await loader.get(datastore.key(['Task', 'one']));
+    assert.strictEqual(lookups.length, 2);
+  });
+
+  it('should split a batch into lookups of the largest size', async () => {
+    loader = datastore.loader({maxBatchSize: 2});
+    const keys = ['one', 'two', 'three'].map(name =>
+      datastore.key(['Task', name]),
+    );
+    const [tasks] = await loader.get(keys);
+    assert.strictEqual(tasks.length, 3);
+    assert.deepStrictEqual(lookups.map(getLookedUpNames), [
+      ['one', 'two'],
+      ['three'],
+    ]);
+  });
+
+  it('should look up the calls with other read options separately', async () => {
+    await Promise.all([
+      loader.get(datastore.key(['Task', 'one'])),
+      loader.get(datastore.key(['Task', 'two']), {readTime: 1000}),
+      loader.get(datastore.key(['Task', 'three']), {readTime: 1000}),
+    ]);
+    assert.strictEqual(lookups.length, 2);
+    assert.deepStrictEqual(getLookedUpNames(lookups[1]), ['two', 'three']);
+    assert.strictEqual(lookups[1].readOptions.readTime.seconds, 1);
+  });
+
+  it('should look up the calls of a transaction in the transaction', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    await Promise.all([
+      datastore.withTransaction(transaction, () =>
+        loader.get(datastore.key(['Task', 'one'])),
+      ),
+      loader.get(datastore.key(['Task', 'two'])),
+    ]);
+    assert.strictEqual(lookups.length, 2);
+    const [transactional] = lookups.filter(
+      lookup => lookup.readOptions && lookup.readOptions.transaction,
+    );
+    assert.deepStrictEqual(getLookedUpNames(transactional), ['one']);
+  });
+
+  it('should reject the calls of a failed lookup', async () => {
+    lookupError = new Error('Error.');
+    const calls = [
+      loader.get(datastore.key(['Task', 'one'])),
+      loader.get([datastore.key(['Task', 'two'])]),
+    ];
+    await Promise.all(calls.map(call => assert.rejects(call, lookupError!)));
+  });
+
+  it('should reject a call without keys', async () => {
+    await assert.rejects(loader.get([]), /At least one Key object is required/);
+  });
+});
@@ -0,0 +1,256 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {Readable} from 'stream';
+import {Datastore, RequestContext} from '../src';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+describe('Middleware', () => {
+  let datastore: Datastore;
+  let sent: {method: string; reqOpts: {}; gaxOpts: RequestContext['gaxOpts']}[];
+
+  beforeEach(() => {
+    datastore = getInitializedDatastoreClient();
+    sent = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    const respond =
+      (method: string, resp: {}) =>
+      (reqOpts: {}, gaxOpts: RequestContext['gaxOpts'], callback: Function) => {
+        sent.push({method, reqOpts, gaxOpts});
+        callback(null, resp, null, {raw: method});
+      };
+    dataClient.lookup = respond('lookup', {found: [], missing: []});
+    dataClient.beginTransaction = respond('beginTransaction', {
+      transaction: 'transaction-id',
+    });
+    dataClient.commit = respond('commit', {mutationResults: []});
+    dataClient.rollback = respond('rollback', {});
+  });
+
+  it('should change the request', async () => {
+    datastore.use(async (context, next) => {
+      context.gaxOpts.headers!['x-tenant-id'] = 'tenant-1';
+      context.reqOpts.databaseId = 'tenant-db';
+      return next();
+    });
+    await datastore.get(datastore.key(['Task', 'one']));
+    assert.strictEqual(sent[0].gaxOpts.headers!['x-tenant-id'], 'tenant-1');
+    assert.strictEqual(
+      (sent[0].reqOpts as {databaseId: string}).databaseId,
+      'tenant-db',
+    );
+  });
+
+  it('should run in the order it was added', async () => {
+    const order: string[] = [];
+    datastore
+      .use(async (context, next) => {
+        order.push('first');
+        const resp = await next();
+        order.push('first done');
+        return resp;
+      })
+      .use(async (context, next) => {
+        order.push('second');
+        const resp = await next();
+        order.push('second done');
+        return resp;
+      });
+    await datastore.get(datastore.key(['Task', 'one']));
+    assert.deepStrictEqual(order, [
+      'first',
+      'second',
+      'second done',
+      'first done',
+    ]);
+  });
+
+  it('should only run the middleware of a view for the view', async () => {
+    datastore.use(async (context, next) => {
+      context.gaxOpts.headers!['x-client'] = 'root';
+      return next();
+    });
+    const tenant = datastore.withNamespace('tenant-1');
+    const other = datastore.withNamespace('tenant-2');
+    tenant.use(async (context, next) => {
+      context.gaxOpts.headers!['x-tenant-id'] = 'tenant-1';
+      return next();
+    });
+    await tenant.get(tenant.key(['Task', 'one']));
+    await other.get(other.key(['Task', 'one']));
+    await datastore.get(datastore.key(['Task', 'one']));
+    assert.deepStrictEqual(
+      sent.map(request => request.gaxOpts.headers!['x-tenant-id']),
+      ['tenant-1', undefined, undefined],
+    );
+    assert.deepStrictEqual(
+      sent.map(request => request.gaxOpts.headers!['x-client']),
+      ['root', 'root', 'root'],
+    );
+  });
+
+  it('should keep the other arguments of the API response', done => {
+    datastore.use((context, next) => next());
+    datastore.request_(
+      {client: 'DatastoreClient', method: 'commit', reqOpts: {}},
+      (err, resp, ...rest) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(resp, {mutationResults: []});
+        assert.deepStrictEqual(rest, [null, {raw: 'commit'}]);
+        done();
+      },
+    );
+  });
+
+  it('should respond without sending the request', async () => {
+    const key = datastore.key(['Task', 'one']);
+    datastore.use(async context => {
+      assert.strictEqual(context.method, 'lookup');
+      return {
+        found: [
+          {
+            entity: {
+              key: {
+                partitionId: context.reqOpts.partitionId,
+                path: [{kind: 'Task', name: 'one', idType: 'name'}],
+              },
+              properties: {
+                done: {valueType: 'booleanValue', booleanValue: true},
+              },
+            },
+          },
+        ],
+        missing: [],
+      };
+    });
+    const [task] = await datastore.get(key);
+    assert.strictEqual(sent.length, 0);
+    assert.strictEqual(task.done, true);
+  });
+
+  it('should observe the error of a request', async () => {
+    const error = new Error('Error.');
+    datastore.clients_.get('DatastoreClient')!.lookup = (
+      reqOpts: {},
+      gaxOpts: {},
+      callback: Function,
+    ) => callback(error);
+    let observed: Error | undefined;
+    datastore.use(async (context, next) => {
+      try {
+        return await next();
+      } catch (err) {
+        observed = err as Error;
+        throw err;
+      }
+    });
+    await assert.rejects(datastore.get(datastore.key(['Task', 'one'])), error);
+    assert.strictEqual(observed, error);
+  });
+
+  it('should inject a fault', async () => {
+    const error = new Error('Injected.');
+    datastore.use(async () => {
+      throw error;
+    });
+    await assert.rejects(datastore.get(datastore.key(['Task', 'one'])), error);
+    assert.strictEqual(sent.length, 0);
+  });
+
+  it('should cover the requests of a transaction', async () => {
+    const contexts: RequestContext[] = [];
+    datastore.use(async (context, next) => {
+      contexts.push(context);
+      return next();
+    });
+    const transaction = datastore.transaction();
+    await transaction.run();
+    await transaction.get(datastore.key(['Task', 'one']));
+    transaction.save({key: datastore.key(['Task', 'one']), data: {}});
+    await transaction.commit();
+    assert.deepStrictEqual(
+      contexts.map(context => [context.client, context.method]),
+      [
+        ['DatastoreClient', 'beginTransaction'],
+        ['DatastoreClient', 'lookup'],
+        ['DatastoreClient', 'commit'],
+      ],
+    );
+    assert.strictEqual(contexts[2].reqOpts.transaction, 'transaction-id');
+  });
+
+  it('should cover the requests of a merge', async () => {
+    const methods: string[] = [];
+    datastore.use(async (context, next) => {
+      methods.push(context.method);
+      return next();
+    });
+    await datastore.merge({key: datastore.key(['Task', 'one']), data: {}});
+    assert.deepStrictEqual(methods, ['beginTransaction', 'lookup', 'commit']);
+  });
+
+  describe('streams', () => {
+    const config = {client: 'DatastoreClient', method: 'listStream'};
+
+    it('should wrap a streaming request', done => {
+      const contexts: RequestContext[] = [];
+      datastore.clients_.get('DatastoreClient')!.listStream = () =>
+        Readable.from([1, 2]);
+      datastore.use(async (context, next) => {
+        contexts.push(context);
+        return next();
+      });
+      const results: number[] = [];
+      datastore
+        .requestStream_(config)
+        .on('error', done)
+        .on('data', (result: number) => results.push(result))
+        .on('end', () => {
+          assert.deepStrictEqual(results, [1, 2]);
+          assert.strictEqual(contexts[0].method, 'listStream');
+          assert.strictEqual(contexts[0].stream, true);
+          done();
+        });
+    });
+
+    it('should respond with the stream of a middleware', done => {
+      datastore.use(async () => Readable.from([3]));
+      const results: number[] = [];
+      datastore
+        .requestStream_(config)
+        .on('error', done)
+        .on('data', (result: number) => results.push(result))
+        .on('end', () => {
+          assert.deepStrictEqual(results, [3]);
+          done();
+        });
+    });
+
+    it('should destroy the stream with the error of a middleware', done => {
+      const error = new Error('Error.');
+      datastore.use(async () => {
+        throw error;
+      });
+      datastore
+        .requestStream_(config)
+        .on('error', (err: Error) => {
+          assert.strictEqual(err, error);
+          done();
+        })
+        .resume();
+    });
+  });
+});
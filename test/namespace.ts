@@ -0,0 +1,231 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {Datastore} from '../src';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Request = any;
+
+describe('withNamespace', () => {
+  let datastore: Datastore;
+  let sent: Request[];
+
+  beforeEach(() => {
+    datastore = getInitializedDatastoreClient();
+    sent = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    const respond =
+      (resp: {}) => (request: Request, options: {}, callback: Function) => {
+        sent.push(request);
+        callback(null, resp);
+      };
+    dataClient.lookup = respond({found: [], missing: []});
+    dataClient.runQuery = respond({
+      batch: {entityResults: [], moreResults: 'NO_MORE_RESULTS'},
+    });
+    dataClient.runAggregationQuery = respond({
+      batch: {aggregationResults: [], moreResults: 'NO_MORE_RESULTS'},
+    });
+    dataClient.beginTransaction = respond({transaction: 'transaction-id'});
+    dataClient.commit = respond({mutationResults: []});
+  });
+
+  it('should share the GAPIC clients and middleware', () => {
+    const tenant = datastore.withNamespace('tenant-1');
+    assert.strictEqual(tenant.namespace, 'tenant-1');
+    assert.strictEqual(tenant.clients_, datastore.clients_);
+    assert.strictEqual(tenant.middleware_, datastore.middleware_);
+    assert.strictEqual(tenant.auth, datastore.auth);
+  });
+
+  it('should apply the namespace to keys', () => {
+    const tenant = datastore.withNamespace('tenant-1');
+    assert.strictEqual(tenant.key(['Task', 'one']).namespace, 'tenant-1');
+    assert.strictEqual(tenant.key({path: ['Task']}).namespace, 'tenant-1');
+    assert.strictEqual(
+      tenant.key({namespace: 'other', path: ['Task']}).namespace,
+      'other',
+    );
+  });
+
+  it('should apply the namespace to queries and aggregations', async () => {
+    const tenant = datastore.withNamespace('tenant-1');
+    const query = tenant.createQuery('Task');
+    assert.strictEqual(query.namespace, 'tenant-1');
+    await tenant.runQuery(query);
+    await tenant.runAggregationQuery(
+      tenant.createAggregationQuery(query).count('total'),
+    );
+    assert.strictEqual(tenant.createGqlQuery('SELECT *').namespace, 'tenant-1');
+    assert.deepStrictEqual(
+      sent.map(request => request.partitionId.namespaceId),
+      ['tenant-1', 'tenant-1'],
+    );
+  });
+
+  it('should apply the namespace to transactions', async () => {
+    const tenant = datastore.withNamespace('tenant-1');
+    const transaction = tenant.transaction();
+    assert.strictEqual(transaction.namespace, 'tenant-1');
+    assert.strictEqual(transaction.createQuery('Task').namespace, 'tenant-1');
+    await transaction.run();
+    transaction.save({key: tenant.key(['Task', 'one']), data: {}});
+    await transaction.commit();
+    const commit = sent[sent.length - 1];
+    assert.strictEqual(
+      commit.mutations[0].upsert.key.partitionId.namespaceId,
+      'tenant-1',
+    );
+  });
+
+  it('should join the ambient transaction of the client', async () => {
+    const tenant = datastore.withNamespace('tenant-1');
+    const transaction = datastore.transaction();
+    await transaction.run();
+    await datastore.withTransaction(transaction, async () => {
+      await tenant.get(tenant.key(['Task', 'one']));
+      await tenant.save({key: tenant.key(['Task', 'two']), data: {}});
+    });
+    assert.strictEqual(sent[1].readOptions.transaction, 'transaction-id');
+    assert.strictEqual(sent.length, 2);
+    await transaction.commit();
+    const commit = sent[2];
+    assert.strictEqual(commit.transaction, 'transaction-id');
+    assert.strictEqual(
+      commit.mutations[0].upsert.key.partitionId.namespaceId,
+      'tenant-1',
+    );
+  });
+
+  it('should not join the transactions of another database', async () => {
+    const other = datastore.database('other');
+    const transaction = datastore.transaction();
+    await transaction.run();
+    await datastore.withTransaction(transaction, () =>
+      other.save({key: other.key(['Task', 'one']), data: {}}),
+    );
+    assert.strictEqual(sent[1].databaseId, 'other');
+    assert.strictEqual(sent[1].transaction, undefined);
+  });
+
+  it('should allow other namespaces when not strict', async () => {
+    const tenant = datastore.withNamespace('tenant-1');
+    await tenant.get(datastore.key(['Task', 'one']));
+    await tenant.runQuery(tenant.createQuery('other', 'Task'));
+    assert.strictEqual(sent.length, 2);
+  });
+
+  describe('strict', () => {
+    let tenant: Datastore;
+
+    beforeEach(() => {
+      tenant = datastore.withNamespace('tenant-1', {strict: true});
+    });
+
+    it('should reject keys of other namespaces', () => {
+      assert.throws(
+        () => tenant.key({namespace: 'other', path: ['Task']}),
+        /The namespace "other" is not the namespace "tenant-1"/,
+      );
+    });
+
+    it('should reject queries of other namespaces', () => {
+      assert.throws(() => tenant.createQuery('other', 'Task'), /"other"/);
+      assert.throws(
+        () => tenant.createGqlQuery('other', 'SELECT *'),
+        /"other"/,
+      );
+      assert.throws(
+        () => tenant.transaction().createQuery('other', 'Task'),
+        /"other"/,
+      );
+    });
+
+    it('should reject requests in other namespaces', async () => {
+      const foreignKey = datastore.key(['Task', 'one']);
+      await assert.rejects(tenant.get(foreignKey), /"namespace"/);
+      await assert.rejects(tenant.delete(foreignKey), /"namespace"/);
+      await assert.rejects(
+        tenant.runQuery(datastore.createQuery('Task')),
+        /"namespace"/,
+      );
+      await assert.rejects(
+        tenant.runQuery(datastore.withNamespace('').createQuery('Task')),
+        /The namespace "" is not the namespace "tenant-1"/,
+      );
+      assert.strictEqual(sent.length, 0);
+    });
+
+    it('should send requests in its namespace', async () => {
+      await tenant.get(tenant.key(['Task', 'one']));
+      await tenant.runQuery(tenant.createQuery('Task'));
+      await tenant.save({key: tenant.key(['Task', 'one']), data: {}});
+      assert.strictEqual(sent.length, 3);
+    });
+
+    it('should reject other namespaces in the ambient transaction', async () => {
+      const foreignKey = datastore.key(['Task', 'one']);
+      const transaction = datastore.transaction();
+      await transaction.run();
+      await datastore.withTransaction(transaction, async () => {
+        await assert.rejects(tenant.get(foreignKey), /"namespace"/);
+        await assert.rejects(
+          tenant.save({key: foreignKey, data: {}}),
+          /"namespace"/,
+        );
+        await assert.rejects(tenant.delete(foreignKey), /"namespace"/);
+        await assert.rejects(
+          tenant.merge({key: foreignKey, data: {}}),
+          /"namespace"/,
+        );
+        await assert.rejects(
+          tenant.runQuery(datastore.createQuery('Task')),
+          /"namespace"/,
+        );
+        await assert.rejects(
+          tenant.runAggregationQuery(
+            datastore.createAggregationQuery(datastore.createQuery('Task')),
+          ),
+          /"namespace"/,
+        );
+        assert.throws(() =>
+          tenant.runQueryStream(datastore.createQuery('Task')),
+        );
+        assert.throws(() => tenant.createReadStream(foreignKey));
+        await assert.rejects(tenant.loader().get(foreignKey), /"namespace"/);
+        await tenant.save({key: tenant.key(['Task', 'one']), data: {}});
+      });
+      await transaction.commit();
+      const commit = sent[1];
+      assert.strictEqual(sent.length, 2);
+      assert.strictEqual(commit.mutations.length, 1);
+      assert.strictEqual(
+        commit.mutations[0].upsert.key.partitionId.namespaceId,
+        'tenant-1',
+      );
+    });
+
+    it('should not create views of other namespaces', () => {
+      assert.throws(() => tenant.withNamespace('other'), /"other"/);
+      const view = tenant.withNamespace('tenant-1');
+      assert.deepStrictEqual(view.namespaceView_, {strict: true});
+      assert.deepStrictEqual(tenant.database('db').namespaceView_, {
+        strict: true,
+      });
+    });
+  });
+});
@@ -14,6 +14,7 @@
 
 import * as assert from 'assert';
 import {beforeEach, describe, it} from 'mocha';
+import {Readable} from 'stream';
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const {Query} = require('../src/query');
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -534,6 +535,48 @@ describe('Query', () => {
     });
   });
 
+  describe('findNearest', () => {
+    const OPTIONS = {
+      vectorProperty: 'embedding',
+      queryVector: [0.5, 1],
+      distanceMeasure: 'EUCLIDEAN' as const,
+      limit: 10,
+    };
+
+    it('should capture the nearest neighbor search', () => {
+      const query = new Query(['kind1']).findNearest(OPTIONS);
+
+      assert.notStrictEqual(query.findNearestVal, OPTIONS);
+      assert.deepStrictEqual(query.findNearestVal, OPTIONS);
+    });
+
+    it('should return the query instance', () => {
+      const query = new Query(['kind1']);
+      const nextQuery = query.findNearest(OPTIONS);
+
+      assert.strictEqual(query, nextQuery);
+    });
+
+    it('should require a vector property', () => {
+      const query = new Query(['kind1']);
+
+      assert.throws(
+        () =>
+          query.findNearest(Object.assign({}, OPTIONS, {vectorProperty: ''})),
+        /A vector property is required for a nearest search\./,
+      );
+    });
+
+    it('should require a positive limit', () => {
+      const query = new Query(['kind1']);
+
+      assert.throws(
+        () => query.findNearest(Object.assign({}, OPTIONS, {limit: 0})),
+        /The limit must be a positive integer\./,
+      );
+    });
+  });
+
   describe('run', () => {
     it('should call the parent instance runQuery correctly', done => {
       const args = [{}, () => {}];
@@ -586,6 +629,106 @@ describe('Query', () => {
     });
   });
 
+  describe('pages', () => {
+    it('should yield a single page without a page size', async () => {
+      const entities = [{a: 1}, {b: 2}];
+      const info = {endCursor: 'cursor', moreResults: 'NO_MORE_RESULTS'};
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      query.scope.runQuery = async function (query_: any, options: any) {
+        assert.strictEqual(this, query.scope);
+        assert.notStrictEqual(query_, query);
+        assert.strictEqual(query_.limitVal, -1);
+        assert.deepStrictEqual(options, {consistency: 'strong'});
+        return [entities, info];
+      };
+
+      const pages = [];
+      for await (const page of query.pages({consistency: 'strong'})) {
+        pages.push(page);
+      }
+      assert.deepStrictEqual(pages, [
+        {entities, endCursor: 'cursor', moreResults: 'NO_MORE_RESULTS'},
+      ]);
+    });
+
+    it('should continue from the end cursor of each page', async () => {
+      const requests: Array<{}> = [];
+      const responses = [
+        [[{a: 1}, {b: 2}], 'cursor1', 'MORE_RESULTS_AFTER_LIMIT'],
+        [[{c: 3}], 'cursor2', 'NO_MORE_RESULTS'],
+      ];
+      query.offset(5);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      query.scope.runQuery = async (query_: any) => {
+        requests.push({
+          start: query_.startVal,
+          limit: query_.limitVal,
+          offset: query_.offsetVal,
+        });
+        const [entities, endCursor, moreResults] = responses.shift()!;
+        return [entities, {endCursor, moreResults}];
+      };
+
+      const pages = [];
+      for await (const page of query.pages({pageSize: 2})) {
+        pages.push(page.entities);
+      }
+      assert.deepStrictEqual(pages, [[{a: 1}, {b: 2}], [{c: 3}]]);
+      assert.deepStrictEqual(requests, [
+        {start: null, limit: 2, offset: 5},
+        {start: 'cursor1', limit: 2, offset: -1},
+      ]);
+      assert.strictEqual(query.startVal, null);
+      assert.strictEqual(query.limitVal, -1);
+    });
+
+    it('should respect the limit of the query', async () => {
+      const limits: number[] = [];
+      query.limit(3);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      query.scope.runQuery = async (query_: any) => {
+        limits.push(query_.limitVal);
+        const entities = new Array(query_.limitVal).fill({});
+        return [
+          entities,
+          {endCursor: 'cursor', moreResults: 'MORE_RESULTS_AFTER_LIMIT'},
+        ];
+      };
+
+      let count = 0;
+      for await (const page of query.pages({pageSize: 2})) {
+        count += page.entities.length;
+      }
+      assert.strictEqual(count, 3);
+      assert.deepStrictEqual(limits, [2, 1]);
+    });
+
+    it('should reject an invalid page size', async () => {
+      await assert.rejects(
+        query.pages({pageSize: 0}).next(),
+        /The page size must be a positive number\./,
+      );
+    });
+  });
+
+  describe('Symbol.asyncIterator', () => {
+    it('should iterate over the results of runStream', async () => {
+      const results = [{a: 1}, {b: 2}];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      query.scope.runQueryStream = function (...args: any[]) {
+        assert.strictEqual(this, query.scope);
+        assert.strictEqual(args[0], query);
+        return Readable.from(results);
+      };
+
+      const entities = [];
+      for await (const entity of query) {
+        entities.push(entity);
+      }
+      assert.deepStrictEqual(entities, results);
+    });
+  });
+
   it('should pass the database id to the generated layer', async () => {
     const options = {
       namespace: `${Date.now()}`,
@@ -24,6 +24,7 @@ import {PassThrough, Transform} from 'stream';
 
 import {google} from '../protos/protos';
 import * as ds from '../src';
+import {ConflictError} from '../src/errors';
 import {entity, Entity, KeyProto} from '../src/entity.js';
 import {IntegerTypeCastOptions, Query, QueryProto} from '../src/query.js';
 import {outOfBoundsError} from './entity';
@@ -32,7 +33,9 @@ import {
   RequestConfig,
   RequestOptions,
   PrepareEntityObjectResponse,
+  CommitApiResponse,
   CommitResponse,
+  GetInfo,
   GetResponse,
   RequestCallback,
 } from '../src/request';
@@ -305,6 +308,40 @@ describe('Request', () => {
       request.createReadStream(key, options).on('error', done).emit('reading');
     });
 
+    it('should send the property mask', done => {
+      request.request_ = (config: RequestConfig) => {
+        assert.deepStrictEqual(config.reqOpts!.propertyMask, {
+          paths: ['name', 'address.city'],
+        });
+        done();
+      };
+
+      request
+        .createReadStream(key, {propertyMask: ['name', 'address.city']})
+        .on('error', done)
+        .emit('reading');
+    });
+
+    it('should accept a single property mask path', done => {
+      request.request_ = (config: RequestConfig) => {
+        assert.deepStrictEqual(config.reqOpts!.propertyMask, {
+          paths: ['name'],
+        });
+        done();
+      };
+
+      request
+        .createReadStream(key, {propertyMask: 'name'})
+        .on('error', done)
+        .emit('reading');
+    });
+
+    it('should throw if a property mask path is empty', () => {
+      assert.throws(() => {
+        request.createReadStream(key, {propertyMask: ['name', '']});
+      }, /A property mask path must be a non-empty string\./);
+    });
+
     it('should allow setting strong read consistency', done => {
       request.request_ = (config: RequestConfig) => {
         assert.strictEqual(config.reqOpts!.readOptions!.readConsistency, 1);
@@ -658,17 +695,93 @@ describe('Request', () => {
       request.delete(key, gaxOptions, assert.ifError);
     });
 
+    it('should delete with preconditions', done => {
+      const updateTime = new Date(1500);
+      request.request_ = (config: RequestConfig) => {
+        assert.deepStrictEqual(config.reqOpts!.mutations, [
+          {
+            delete: entity.keyToKeyProto(key),
+          },
+          {
+            delete: entity.keyToKeyProto(key),
+            baseVersion: '4',
+            conflictResolutionStrategy: 'SERVER_VALUE',
+          },
+          {
+            delete: entity.keyToKeyProto(key),
+            updateTime: {seconds: 1, nanos: 500000000},
+            conflictResolutionStrategy: 'SERVER_VALUE',
+          },
+        ]);
+        done();
+      };
+      request.delete(
+        [key, {key, ifVersion: '4'}, {key, ifUpdateTime: updateTime}],
+        assert.ifError,
+      );
+    });
+
+    it('should return a ConflictError naming the key', done => {
+      const otherKey = new entity.Key({path: ['Company', 'other']});
+      const resp = {
+        mutationResults: [{conflictDetected: false}, {conflictDetected: true}],
+      };
+      request.request_ = (config: RequestConfig, callback: Function) => {
+        callback(null, resp);
+      };
+      request.delete(
+        [
+          {key, ifVersion: 1},
+          {key: otherKey, ifVersion: 2},
+        ],
+        (err: ConflictError, apiResponse: {}) => {
+          assert(err instanceof ConflictError);
+          assert.strictEqual(err.key, otherKey);
+          assert.deepStrictEqual(err.keys, [otherKey]);
+          assert.strictEqual(apiResponse, resp);
+          done();
+        },
+      );
+    });
+
+    it('should return the write result of each deleted entity', done => {
+      const updateTime = {seconds: '1700000005', nanos: 0};
+      request.request_ = (config: RequestConfig, callback: Function) => {
+        callback(null, {mutationResults: [{version: '9', updateTime}]});
+      };
+      request.delete(key, (err: Error, apiResponse: CommitApiResponse) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(apiResponse.writeResults, [
+          {key, version: '9', updateTime: {seconds: 1700000005, nanos: 0}},
+        ]);
+        done();
+      });
+    });
+
     describe('transactions', () => {
       beforeEach(() => {
         // Trigger transaction mode.
         request.id = 'transaction-id';
         request.requests_ = [];
+        request.requestCallbacks_ = [];
       });
 
       it('should queue request', () => {
         request.delete(key);
         assert(is.object(request.requests_[0].mutations[0].delete));
       });
+
+      it('should find conflicts after the mutations queued before', done => {
+        request.requests_.push({mutations: [{upsert: {}}]});
+        request.delete({key, ifVersion: 1}, assert.ifError);
+        request.requestCallbacks_[0](null, {
+          mutationResults: [
+            {conflictDetected: true},
+            {conflictDetected: false},
+          ],
+        });
+        done();
+      });
     });
   });
 
@@ -714,11 +827,110 @@ describe('Request', () => {
       });
     });
 
+    describe('missing entities', () => {
+      let keys: entity.Key[];
+
+      beforeEach(() => {
+        keys = ['one', 'two', 'three'].map(
+          name =>
+            new entity.Key({namespace: 'namespace', path: ['Task', name]}),
+        );
+        // The entities named `two` are missing, the others are found, in the
+        // reverse order of the keys.
+        request.request_ = (
+          config: RequestConfig,
+          callback: RequestCallback,
+        ) => {
+          const toResult = (keyProto: KeyProto) => ({
+            entity: {
+              key: Object.assign({}, keyProto, {
+                path: keyProto.path!.map(element =>
+                  Object.assign({idType: 'name'}, element),
+                ),
+              }),
+              properties: {
+                name: {
+                  valueType: 'stringValue',
+                  stringValue: keyProto.path![0].name,
+                },
+              },
+            },
+          });
+          const keyProtos = (config.reqOpts!.keys as KeyProto[])
+            .slice()
+            .reverse();
+          const isMissing = (keyProto: KeyProto) =>
+            keyProto.path![0].name === 'two';
+          callback(null, {
+            found: keyProtos.filter(k => !isMissing(k)).map(toResult),
+            missing: keyProtos.filter(isMissing).map(toResult),
+          });
+        };
+      });
+
+      it('should return the missing keys', done => {
+        request.get(
+          keys,
+          (err: Error | null, entities: Entity[], info: GetInfo) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(
+              entities.map(entity => entity.name),
+              ['three', 'one'],
+            );
+            assert.deepStrictEqual(info.missing, [keys[1]]);
+            done();
+          },
+        );
+      });
+
+      it('should align the entities with the keys', done => {
+        request.get(
+          keys,
+          {alignResults: true},
+          (err: Error | null, entities: Entity[]) => {
+            assert.ifError(err);
+            assert.deepStrictEqual(
+              entities.map(entity => entity && entity.name),
+              ['one', undefined, 'three'],
+            );
+            done();
+          },
+        );
+      });
+
+      it('should report the missing key of a single key', done => {
+        request.get(
+          keys[1],
+          (err: Error | null, entity: Entity, info: GetInfo) => {
+            assert.ifError(err);
+            assert.strictEqual(entity, undefined);
+            assert.deepStrictEqual(info.missing, [keys[1]]);
+            done();
+          },
+        );
+      });
+
+      it('should emit the missing keys of a stream', done => {
+        request
+          .createReadStream(keys)
+          .on('error', done)
+          .on('missing', (missing: entity.Key[]) => {
+            assert.deepStrictEqual(
+              missing.map(key => key.name),
+              ['two'],
+            );
+            done();
+          })
+          .resume();
+      });
+    });
+
     describe('success', () => {
-      const keys = [key];
+      let keys: entity.Key[];
       const fakeEntities = [{a: 'a'}, {b: 'b'}];
 
       beforeEach(() => {
+        keys = [key];
         request.createReadStream = sandbox.spy(() => {
           const stream = new Transform({objectMode: true});
           setImmediate(() => {
@@ -900,6 +1112,21 @@ describe('Request', () => {
       request.runQueryStream({}, options).on('error', done).emit('reading');
     });
 
+    it('should send the property mask', done => {
+      sandbox.stub(entity, 'queryToQueryProto');
+      request.request_ = (config: RequestConfig) => {
+        assert.deepStrictEqual(config.reqOpts!.propertyMask, {
+          paths: ['lineItems'],
+        });
+        done();
+      };
+
+      request
+        .runQueryStream({}, {propertyMask: ['lineItems']})
+        .on('error', done)
+        .emit('reading');
+    });
+
     it('should allow setting strong read consistency', done => {
       sandbox.stub(entity, 'queryToQueryProto');
       request.request_ = (config: RequestConfig) => {
@@ -0,0 +1,119 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {Datastore, Snapshot} from '../src';
+import * as protos from '../protos/protos';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+type ReadRequest =
+  | protos.google.datastore.v1.ILookupRequest
+  | protos.google.datastore.v1.IRunQueryRequest
+  | protos.google.datastore.v1.IRunAggregationQueryRequest;
+
+describe('Snapshot', () => {
+  const readTime = {seconds: 2};
+  let datastore: Datastore;
+  let requests: ReadRequest[];
+
+  beforeEach(() => {
+    datastore = getInitializedDatastoreClient();
+    requests = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.lookup = (
+      request: ReadRequest,
+      options: {},
+      callback: (err: Error | null, resp: {}) => void,
+    ) => {
+      requests.push(request);
+      callback(null, {found: [], missing: [], deferred: []});
+    };
+    dataClient.runQuery = (
+      request: ReadRequest,
+      options: {},
+      callback: (err: Error | null, resp: {}) => void,
+    ) => {
+      requests.push(request);
+      callback(null, {
+        batch: {entityResults: [], moreResults: 'NO_MORE_RESULTS'},
+      });
+    };
+    dataClient.runAggregationQuery = (
+      request: ReadRequest,
+      options: {},
+      callback: (err: Error | null, resp: {}) => void,
+    ) => {
+      requests.push(request);
+      callback(null, {batch: {aggregationResults: []}});
+    };
+  });
+
+  it('should be created from a date or milliseconds', () => {
+    const snapshot = datastore.snapshot(new Date(1500));
+    assert(snapshot instanceof Snapshot);
+    assert.strictEqual(snapshot.readTime, 1500);
+    assert.strictEqual(datastore.snapshot(1500).readTime, 1500);
+  });
+
+  it('should throw for an invalid read time', () => {
+    assert.throws(
+      () => datastore.snapshot(new Date('not a date')),
+      /A snapshot requires a valid read time\./,
+    );
+  });
+
+  it('should read entities at the read time', async () => {
+    const snapshot = datastore.snapshot(2000);
+    await snapshot.get(datastore.key(['Task', 'one']));
+    assert.deepStrictEqual(requests[0].readOptions, {readTime});
+  });
+
+  it('should run queries at the read time', async () => {
+    const snapshot = datastore.snapshot(2000);
+    const query = snapshot.createQuery('Task');
+    await snapshot.runQuery(query);
+    await snapshot.runAggregationQuery(
+      snapshot.createAggregationQuery(query).count('total'),
+    );
+    assert.deepStrictEqual(
+      requests.map(request => request.readOptions),
+      [{readTime}, {readTime}],
+    );
+  });
+
+  it('should read at the read time in streams', done => {
+    const snapshot = datastore.snapshot(2000);
+    snapshot
+      .runQueryStream(snapshot.createQuery('Task'))
+      .on('error', done)
+      .on('data', () => {})
+      .on('end', () => {
+        assert.deepStrictEqual(requests[0].readOptions, {readTime});
+        done();
+      });
+  });
+
+  it('should use the read time over the one of the options', async () => {
+    const snapshot = datastore.snapshot(2000);
+    await snapshot.get(datastore.key(['Task', 'one']), {readTime: 9000});
+    assert.deepStrictEqual(requests[0].readOptions, {readTime});
+  });
+
+  it('should not modify entities', () => {
+    const snapshot = datastore.snapshot(2000);
+    assert.throws(() => snapshot.delete(), /A snapshot is read-only\./);
+    assert.throws(() => snapshot.merge(), /A snapshot is read-only\./);
+  });
+});
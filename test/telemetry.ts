@@ -0,0 +1,265 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {SpanStatusCode, context, trace} from '@opentelemetry/api';
+import {AsyncLocalStorageContextManager} from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {ClientStub} from 'google-gax';
+import {Datastore} from '../src';
+import {entity} from '../src/entity';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+type Callback = (err: Error | null, resp?: {}) => void;
+
+describe('Telemetry', () => {
+  let datastore: Datastore;
+  let exporter: InMemorySpanExporter;
+  let lookupResponses: Array<{}>;
+  let runQueryResponses: Array<{}>;
+
+  function getSpan(name: string): ReadableSpan {
+    const span = exporter.getFinishedSpans().find(span => span.name === name);
+    assert(span, `The span "${name}" was not recorded.`);
+    return span;
+  }
+
+  function getChildren(parent: ReadableSpan): string[] {
+    return exporter
+      .getFinishedSpans()
+      .filter(
+        span =>
+          span.parentSpanContext &&
+          span.parentSpanContext.spanId === parent.spanContext().spanId,
+      )
+      .map(span => span.name);
+  }
+
+  function toEntityResult(key: entity.Key) {
+    return {
+      entity: {
+        key: entity.keyToKeyProto(key),
+        properties: {done: {valueType: 'booleanValue', booleanValue: true}},
+      },
+    };
+  }
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable(),
+    );
+    trace.setGlobalTracerProvider(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+
+    datastore = getInitializedDatastoreClient();
+    lookupResponses = [];
+    runQueryResponses = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.lookup = (request: {}, options: {}, callback: Callback) => {
+      setImmediate(callback, null, lookupResponses.shift());
+    };
+    dataClient.runQuery = (request: {}, options: {}, callback: Callback) => {
+      setImmediate(callback, null, runQueryResponses.shift());
+    };
+    dataClient.beginTransaction = (
+      request: {},
+      options: {},
+      callback: Callback,
+    ) => {
+      setImmediate(callback, null, {transaction: 'transaction-id'});
+    };
+    dataClient.commit = (
+      request: {mutations: []},
+      options: {},
+      callback: Callback,
+    ) => {
+      setImmediate(callback, null, {
+        mutationResults: request.mutations.map(() => ({version: '1'})),
+      });
+    };
+    dataClient.rollback = (request: {}, options: {}, callback: Callback) => {
+      setImmediate(callback, null, {});
+    };
+  });
+
+  afterEach(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  it('should not record spans without a tracer provider', async () => {
+    trace.disable();
+    const key = datastore.key(['Task', 'one']);
+    lookupResponses.push({found: [toEntityResult(key)]});
+    const [task] = await datastore.get(key);
+    assert.strictEqual(task.done, true);
+    assert.deepStrictEqual(exporter.getFinishedSpans(), []);
+  });
+
+  it('should trace a lookup and the lookups of its deferred keys', async () => {
+    const keys = [
+      datastore.key(['Task', 'one']),
+      datastore.key(['Task', 'two']),
+      datastore.key(['Task', 'three']),
+    ];
+    lookupResponses.push(
+      {
+        found: [toEntityResult(keys[0])],
+        deferred: [keys[1], keys[2]].map(entity.keyToKeyProto),
+      },
+      {
+        found: [toEntityResult(keys[1])],
+        missing: [toEntityResult(keys[2])],
+      },
+    );
+    await datastore.get(keys);
+
+    const span = getSpan('Datastore.get');
+    assert.deepStrictEqual(span.attributes, {
+      'datastore.kind': ['Task'],
+      'datastore.namespace': 'namespace',
+      'datastore.key_count': 3,
+      'datastore.result_count': 2,
+    });
+    assert.deepStrictEqual(getChildren(span), [
+      'DatastoreClient.lookup',
+      'DatastoreClient.lookup',
+    ]);
+    assert.strictEqual(
+      getSpan('DatastoreClient.lookup').attributes['rpc.method'],
+      'lookup',
+    );
+  });
+
+  it('should trace a query and its continuation pages', async () => {
+    const key = datastore.key(['Task', 'one']);
+    runQueryResponses.push(
+      {
+        batch: {
+          entityResults: [toEntityResult(key)],
+          endCursor: Buffer.from('cursor'),
+          moreResults: 'NOT_FINISHED',
+        },
+      },
+      {
+        batch: {
+          entityResults: [toEntityResult(key)],
+          moreResults: 'NO_MORE_RESULTS',
+        },
+      },
+    );
+    await datastore.runQuery(datastore.createQuery('Task'));
+
+    const span = getSpan('Datastore.runQuery');
+    assert.deepStrictEqual(span.attributes, {
+      'datastore.kind': ['Task'],
+      'datastore.namespace': 'namespace',
+      'datastore.result_count': 2,
+    });
+    assert.deepStrictEqual(getChildren(span), [
+      'DatastoreClient.runQuery',
+      'DatastoreClient.runQuery',
+    ]);
+  });
+
+  it('should trace a save', async () => {
+    await datastore.save([
+      {key: datastore.key(['Task', 'one']), data: {}},
+      {key: datastore.key(['Project', 'two']), data: {}},
+    ]);
+
+    const span = getSpan('Datastore.save');
+    assert.deepStrictEqual(span.attributes, {
+      'datastore.kind': ['Task', 'Project'],
+      'datastore.namespace': 'namespace',
+      'datastore.key_count': 2,
+      'datastore.result_count': 2,
+    });
+    assert.deepStrictEqual(getChildren(span), ['DatastoreClient.commit']);
+  });
+
+  it('should trace a transaction', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    transaction.save({key: datastore.key(['Task', 'one']), data: {}});
+    await transaction.commit();
+
+    assert.deepStrictEqual(getChildren(getSpan('Transaction.run')), [
+      'DatastoreClient.beginTransaction',
+    ]);
+    const span = getSpan('Transaction.commit');
+    assert.strictEqual(span.attributes['datastore.key_count'], 1);
+    assert.strictEqual(span.attributes['datastore.result_count'], 1);
+    assert.deepStrictEqual(getChildren(span), ['DatastoreClient.commit']);
+  });
+
+  it('should trace a rollback', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    await transaction.rollback();
+
+    assert.deepStrictEqual(getChildren(getSpan('Transaction.rollback')), [
+      'DatastoreClient.rollback',
+    ]);
+  });
+
+  it('should record the error of an operation', async () => {
+    const error = new Error('Error.');
+    datastore.clients_.get('DatastoreClient')!.lookup = (
+      request: {},
+      options: {},
+      callback: Callback,
+    ) => {
+      setImmediate(callback, error);
+    };
+    await assert.rejects(datastore.get(datastore.key(['Task', 'one'])), error);
+
+    for (const name of ['Datastore.get', 'DatastoreClient.lookup']) {
+      const span = getSpan(name);
+      assert.deepStrictEqual(span.status, {
+        code: SpanStatusCode.ERROR,
+        message: 'Error.',
+      });
+      assert.strictEqual(span.events[0].name, 'exception');
+    }
+  });
+
+  it('should trace an export', async () => {
+    datastore.clients_.set('DatastoreAdminClient', {
+      exportEntities(request: {}, options: {}, callback: Callback) {
+        setImmediate(callback, null, {name: 'operation'});
+      },
+    } as {} as ClientStub);
+    await datastore.export({bucket: 'bucket', kinds: ['Task']});
+
+    const span = getSpan('Datastore.export');
+    assert.deepStrictEqual(span.attributes, {
+      'datastore.kind': ['Task'],
+      'datastore.namespace': 'namespace',
+    });
+    assert.deepStrictEqual(getChildren(span), [
+      'DatastoreAdminClient.exportEntities',
+    ]);
+  });
+});
@@ -20,9 +20,12 @@ import * as proxyquire from 'proxyquire';
 import {getTransactionRequest} from '../src/request';
 
 import {
+  ConflictError,
+  ContentionError,
   Datastore,
   DatastoreOptions,
   DatastoreRequest,
+  GqlQuery,
   Query,
   TransactionOptions,
   Transaction,
@@ -46,6 +49,7 @@ import * as protos from '../protos/protos';
 import {AggregateQuery} from '../src/aggregate';
 import {RunQueryCallback, RunQueryInfo, RunQueryOptions} from '../src/query';
 import * as mocha from 'mocha';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
 const async = require('async');
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -61,9 +65,17 @@ const fakePfy = Object.assign({}, pfy, {
     promisified = true;
     assert.deepStrictEqual(options.exclude, [
       'createAggregationQuery',
+      'createGqlQuery',
       'createQuery',
       'delete',
+      'discard',
+      'getMutationPlan',
       'insert',
+      'onCommit',
+      'onRollback',
+      'parseTransactionResponse',
+      'patch',
+      'pendingMutations',
       '#runAsync',
       'save',
       'update',
@@ -135,6 +147,21 @@ async.each(
           assert.strictEqual(transaction.readOnly, true);
         });
 
+        it('should localize the read time of a date', () => {
+          const transaction = new Transaction(DATASTORE, {
+            readOnly: true,
+            readTime: new Date(1500),
+          });
+          assert.strictEqual(transaction.readTime, 1500);
+        });
+
+        it('should throw if a read time is used without readOnly', () => {
+          assert.throws(
+            () => new Transaction(DATASTORE, {readTime: 1500}),
+            /A read time can only be used with a read-only transaction\./,
+          );
+        });
+
         it('should localize request function', done => {
           const fakeDataset: Any = {
             request_: {
@@ -447,6 +474,164 @@ async.each(
             });
           });
         });
+        describe('commit with preconditions', () => {
+          const conflictCommitResp = {
+            mutationResults: [
+              {conflictDetected: false},
+              {conflictDetected: true},
+            ],
+          };
+          let commitRequest: protos.google.datastore.v1.ICommitRequest;
+
+          beforeEach(async () => {
+            transactionWrapper = new MockedTransactionWrapper();
+            transactionWrapper.mockGapicFunction(
+              GapicFunctionName.COMMIT,
+              conflictCommitResp,
+              null,
+            );
+            transactionWrapper.callBackSignaler = (
+              callbackReached: GapicFunctionName,
+              request?: RequestType,
+            ) => {
+              if (callbackReached === GapicFunctionName.COMMIT) {
+                commitRequest =
+                  request as protos.google.datastore.v1.ICommitRequest;
+              }
+            };
+          });
+
+          it('should send back a conflict error naming the key', async () => {
+            const datastore = transactionWrapper.datastore;
+            const transaction = transactionWrapper.transaction;
+            const saveKey = datastore.key(['Task', 'saved']);
+            const deleteKey = datastore.key(['Task', 'deleted']);
+            await transaction.run();
+            transaction.delete({key: deleteKey, ifVersion: '7'});
+            transaction.save({key: saveKey, data: {}, ifVersion: '3'});
+            try {
+              await transaction.commit();
+              assert.fail('The commit should have failed.');
+            } catch (error) {
+              assert(error instanceof ConflictError);
+              assert.deepStrictEqual(error.keys, [deleteKey]);
+            }
+            assert.deepStrictEqual(
+              commitRequest.mutations!.map(mutation => [
+                mutation.baseVersion,
+                mutation.conflictResolutionStrategy,
+              ]),
+              [
+                ['3', 'SERVER_VALUE'],
+                ['7', 'SERVER_VALUE'],
+              ],
+            );
+          });
+        });
+        describe('patch', () => {
+          let commitRequest: protos.google.datastore.v1.ICommitRequest;
+
+          beforeEach(async () => {
+            transactionWrapper = new MockedTransactionWrapper();
+            transactionWrapper.mockGapicFunction(
+              GapicFunctionName.COMMIT,
+              {mutationResults: [{version: '2'}]},
+              null,
+            );
+            transactionWrapper.callBackSignaler = (
+              callbackReached: GapicFunctionName,
+              request?: RequestType,
+            ) => {
+              if (callbackReached === GapicFunctionName.COMMIT) {
+                commitRequest =
+                  request as protos.google.datastore.v1.ICommitRequest;
+              }
+            };
+          });
+
+          it('should commit the patch with a property mask', async () => {
+            const datastore = transactionWrapper.datastore;
+            const transaction = transactionWrapper.transaction;
+            const key = datastore.key(['Order', 'order1']);
+            await transaction.run();
+            transaction.patch(
+              key,
+              {'customer.name': 'Ada'},
+              {deleteProperties: ['lineItems']},
+            );
+            await transaction.commit();
+            const mutation = commitRequest.mutations![0];
+            assert.deepStrictEqual(mutation.propertyMask, {
+              paths: ['customer.name', 'lineItems'],
+            });
+            assert.strictEqual(
+              mutation.update!.properties!.customer.entityValue!.properties!
+                .name.stringValue,
+              'Ada',
+            );
+          });
+        });
+        describe('get with a property mask', () => {
+          const partialLookupResp = {
+            found: [
+              {
+                entity: {
+                  key: {
+                    path: [{kind: 'Order', name: 'order1', idType: 'name'}],
+                  },
+                  properties: {
+                    status: {stringValue: 'shipped', valueType: 'stringValue'},
+                    customer: {
+                      entityValue: {
+                        properties: {
+                          name: {stringValue: 'Ada', valueType: 'stringValue'},
+                        },
+                      },
+                      valueType: 'entityValue',
+                    },
+                  },
+                },
+              },
+            ],
+            missing: [],
+            deferred: [],
+          };
+          let lookupRequest: protos.google.datastore.v1.ILookupRequest;
+
+          beforeEach(async () => {
+            transactionWrapper = new MockedTransactionWrapper();
+            transactionWrapper.mockGapicFunction(
+              GapicFunctionName.LOOKUP,
+              partialLookupResp,
+              null,
+            );
+            transactionWrapper.callBackSignaler = (
+              callbackReached: GapicFunctionName,
+              request?: RequestType,
+            ) => {
+              if (callbackReached === GapicFunctionName.LOOKUP) {
+                lookupRequest =
+                  request as protos.google.datastore.v1.ILookupRequest;
+              }
+            };
+          });
+
+          it('should only read the properties in the mask', async () => {
+            const datastore = transactionWrapper.datastore;
+            const transaction = transactionWrapper.transaction;
+            const key = datastore.key(['Order', 'order1']);
+            await transaction.run();
+            const [order] = await transaction.get(key, {
+              propertyMask: ['status', 'customer.name'],
+            });
+            assert.deepStrictEqual(lookupRequest.propertyMask, {
+              paths: ['status', 'customer.name'],
+            });
+            assert.deepStrictEqual(order[datastore.KEY].path, key.path);
+            assert.strictEqual(order.status, 'shipped');
+            assert.deepStrictEqual(order.customer, {name: 'Ada'});
+          });
+        });
         describe('runAggregationQuery', () => {
           // These tests were created to catch regressions for transaction.runAggregationQuery changes.
           const runAggregationQueryUserResp = [{'average rating': 100}];
@@ -2421,6 +2606,24 @@ async.each(
         });
       });
 
+      describe('createGqlQuery', () => {
+        it('should return query from datastore.createGqlQuery', () => {
+          const queryString = 'SELECT * FROM Kind';
+          const options = {};
+          const createGqlQueryReturnValue = {};
+
+          transaction.datastore.createGqlQuery = function (...ags: Any) {
+            assert.strictEqual(this, transaction);
+            assert.strictEqual(ags[0], queryString);
+            assert.strictEqual(ags[1], options);
+            return createGqlQueryReturnValue as GqlQuery;
+          };
+
+          const query = transaction.createGqlQuery(queryString, options);
+          assert.strictEqual(query, createGqlQueryReturnValue);
+        });
+      });
+
       describe('delete', () => {
         it('should push entities into a queue', () => {
           const keys = [
@@ -2925,6 +3128,17 @@ describe('getTransactionRequest', () => {
     });
   });
 
+  it('should return a readOnly object with the readTime of the transaction', () => {
+    const transaction = new Transaction(datastore, {
+      readOnly: true,
+      readTime: 1500,
+    });
+    const result = getTransactionRequest(transaction, {});
+    assert.deepStrictEqual(result, {
+      readOnly: {readTime: {seconds: 1, nanos: 500000000}},
+    });
+  });
+
   it('should return a readOnly object if transaction is constructed with readOnly: true', () => {
     const transaction = new Transaction(datastore, {readOnly: true});
     const options = {};
@@ -2941,3 +3155,740 @@ describe('getTransactionRequest', () => {
     });
   });
 });
+
+describe('runTransaction', () => {
+  let datastore: Datastore;
+  let beginRequests: google.datastore.v1.IBeginTransactionRequest[];
+  let commitRequests: google.datastore.v1.ICommitRequest[];
+  let rollbackRequests: google.datastore.v1.IRollbackRequest[];
+  let commitErrors: Array<Error | null>;
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    // Retry without waiting.
+    sandbox.stub(Math, 'random').returns(0);
+
+    datastore = getInitializedDatastoreClient();
+    beginRequests = [];
+    commitRequests = [];
+    rollbackRequests = [];
+    commitErrors = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.beginTransaction = (
+      request: google.datastore.v1.IBeginTransactionRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      beginRequests.push(request);
+      callback(null, {
+        transaction: Buffer.from(`tx${beginRequests.length}`),
+      });
+    };
+    dataClient.commit = (
+      request: google.datastore.v1.ICommitRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      commitRequests.push(request);
+      callback(commitErrors.shift() || null, {mutationResults: []});
+    };
+    dataClient.rollback = (
+      request: google.datastore.v1.IRollbackRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      rollbackRequests.push(request);
+      callback(null, {});
+    };
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  function abortedError() {
+    return Object.assign(new Error('Aborted due to contention.'), {
+      code: 10,
+    });
+  }
+
+  it('should commit and resolve to the value of the function', async () => {
+    const key = datastore.key(['Account', 'alice']);
+    const result = await datastore.runTransaction(async transaction => {
+      transaction.save({key, data: {balance: 10}});
+      return 'done';
+    });
+    assert.strictEqual(result, 'done');
+    assert.strictEqual(beginRequests.length, 1);
+    assert.strictEqual(commitRequests.length, 1);
+    assert.strictEqual(commitRequests[0].mutations!.length, 1);
+    assert.strictEqual(rollbackRequests.length, 0);
+  });
+
+  it('should retry on contention with the previous transaction', async () => {
+    commitErrors.push(abortedError());
+    let attempts = 0;
+    const result = await datastore.runTransaction(async () => ++attempts);
+    assert.strictEqual(result, 2);
+    assert.strictEqual(commitRequests.length, 2);
+    assert.deepStrictEqual(beginRequests[1].transactionOptions, {
+      readWrite: {previousTransaction: Buffer.from('tx1')},
+    });
+  });
+
+  it('should retry when the function fails with contention', async () => {
+    let attempts = 0;
+    await datastore.runTransaction(async () => {
+      if (++attempts === 1) {
+        throw abortedError();
+      }
+    });
+    assert.strictEqual(attempts, 2);
+    assert.strictEqual(rollbackRequests.length, 1);
+    assert.strictEqual(commitRequests.length, 1);
+  });
+
+  it('should give up after the last attempt', async () => {
+    const error = abortedError();
+    commitErrors.push(error, error, error);
+    await assert.rejects(
+      datastore.runTransaction(async () => {}, {maxAttempts: 2}),
+      (err: ContentionError) => {
+        assert(err instanceof ContentionError);
+        assert.strictEqual(err.cause, error);
+        return true;
+      },
+    );
+    assert.strictEqual(commitRequests.length, 2);
+  });
+
+  it('should roll back and not retry on other errors', async () => {
+    const error = new Error('user error');
+    await assert.rejects(
+      datastore.runTransaction(async () => {
+        throw error;
+      }),
+      error,
+    );
+    assert.strictEqual(beginRequests.length, 1);
+    assert.strictEqual(rollbackRequests.length, 1);
+    assert.strictEqual(commitRequests.length, 0);
+  });
+
+  it('should run a read-only transaction at a read time', async () => {
+    await datastore.runTransaction(async () => {}, {
+      readOnly: true,
+      readTime: 2000,
+    });
+    assert.deepStrictEqual(beginRequests[0].transactionOptions, {
+      readOnly: {readTime: {seconds: 2, nanos: 0}},
+    });
+  });
+
+  it('should throw if maxAttempts is not positive', async () => {
+    await assert.rejects(
+      datastore.runTransaction(async () => {}, {maxAttempts: 0}),
+      /maxAttempts must be at least 1\./,
+    );
+  });
+
+  describe('ambient transaction', () => {
+    let lookupRequests: google.datastore.v1.ILookupRequest[];
+    let queryRequests: google.datastore.v1.IRunQueryRequest[];
+
+    beforeEach(() => {
+      lookupRequests = [];
+      queryRequests = [];
+      const dataClient = datastore.clients_.get('DatastoreClient')!;
+      dataClient.lookup = (
+        request: google.datastore.v1.ILookupRequest,
+        options: {},
+        callback: Callback<{}, {}, {}>,
+      ) => {
+        lookupRequests.push(request);
+        callback(null, {found: []});
+      };
+      dataClient.runQuery = (
+        request: google.datastore.v1.IRunQueryRequest,
+        options: {},
+        callback: Callback<{}, {}, {}>,
+      ) => {
+        queryRequests.push(request);
+        callback(null, {
+          batch: {entityResults: [], moreResults: 'NO_MORE_RESULTS'},
+        });
+      };
+    });
+
+    it('should join the requests made in the function', async () => {
+      const key = datastore.key(['Account', 'alice']);
+      await datastore.runTransaction(async () => {
+        await datastore.get(key);
+        await datastore.runQuery(datastore.createQuery('Account'));
+        await datastore.save({key, data: {balance: 10}});
+        await datastore.delete(datastore.key(['Account', 'bob']));
+      });
+
+      assert.deepStrictEqual(lookupRequests[0].readOptions, {
+        transaction: Buffer.from('tx1'),
+      });
+      assert.deepStrictEqual(queryRequests[0].readOptions, {
+        transaction: Buffer.from('tx1'),
+      });
+      assert.strictEqual(commitRequests.length, 1);
+      assert.strictEqual(commitRequests[0].mode, 'TRANSACTIONAL');
+      assert.strictEqual(commitRequests[0].mutations!.length, 2);
+    });
+
+    it('should bind a transaction with withTransaction', async () => {
+      const transaction = datastore.transaction();
+      await transaction.run();
+      const key = datastore.key(['Account', 'alice']);
+
+      await datastore.withTransaction(transaction, async () => {
+        await datastore.get(key);
+      });
+      await datastore.get(key);
+
+      assert.deepStrictEqual(
+        lookupRequests.map(request => request.readOptions),
+        [{transaction: Buffer.from('tx1')}, undefined],
+      );
+    });
+
+    it('should not join requests made through a transaction', async () => {
+      const other = datastore.transaction();
+      await other.run();
+      await datastore.runTransaction(async () => {
+        await other.get(datastore.key(['Account', 'alice']));
+      });
+      assert.deepStrictEqual(lookupRequests[0].readOptions, {
+        transaction: Buffer.from('tx1'),
+      });
+    });
+  });
+});
+
+describe('readYourWrites', () => {
+  let datastore: Datastore;
+  let lookupRequests: google.datastore.v1.ILookupRequest[];
+
+  beforeEach(() => {
+    datastore = getInitializedDatastoreClient();
+    lookupRequests = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.beginTransaction = (
+      request: google.datastore.v1.IBeginTransactionRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      callback(null, {transaction: Buffer.from('tx')});
+    };
+    dataClient.lookup = (
+      request: google.datastore.v1.ILookupRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      lookupRequests.push(request);
+      callback(null, {
+        found: request.keys!.map(key => ({
+          entity: {
+            key: {
+              partitionId: key.partitionId,
+              path: key.path!.map(element =>
+                Object.assign({idType: 'name'}, element),
+              ),
+            },
+            properties: {
+              name: {valueType: 'stringValue', stringValue: 'stored'},
+              city: {valueType: 'stringValue', stringValue: 'Paris'},
+            },
+          },
+          version: '1',
+        })),
+      });
+    };
+  });
+
+  async function startTransaction(readYourWrites = true) {
+    const transaction = datastore.transaction({readYourWrites});
+    await transaction.run();
+    return transaction;
+  }
+
+  it('should return the entities saved in the transaction', async () => {
+    const transaction = await startTransaction();
+    const savedKey = datastore.key(['Account', 'saved']);
+    const storedKey = datastore.key(['Account', 'stored']);
+    transaction.delete(savedKey);
+    transaction.save({key: savedKey, data: {name: 'first'}});
+    transaction.upsert({key: savedKey, data: {name: 'second'}});
+
+    const [entities] = await transaction.get([savedKey, storedKey]);
+    assert.deepStrictEqual(
+      entities.map((entity: Entity) => entity.name),
+      ['stored', 'second'],
+    );
+    assert.strictEqual(entities[1][Datastore.KEY], savedKey);
+    assert.deepStrictEqual(lookupRequests.length, 1);
+    assert.deepStrictEqual(lookupRequests[0].keys!.length, 1);
+  });
+
+  it('should leave out the entities deleted in the transaction', async () => {
+    const transaction = await startTransaction();
+    const key = datastore.key(['Account', 'deleted']);
+    transaction.save({key, data: {name: 'saved'}});
+    transaction.delete(key);
+
+    const [entity] = await transaction.get(key);
+    assert.strictEqual(entity, undefined);
+    assert.strictEqual(lookupRequests.length, 0);
+  });
+
+  it('should report the entities deleted in the transaction as missing', async () => {
+    const transaction = await startTransaction();
+    const deletedKey = datastore.key(['Account', 'deleted']);
+    const storedKey = datastore.key(['Account', 'stored']);
+    transaction.delete(deletedKey);
+
+    const [entities, info] = await transaction.get([deletedKey, storedKey], {
+      alignResults: true,
+    });
+    assert.strictEqual(entities[0], undefined);
+    assert.strictEqual(entities[1].name, 'stored');
+    assert.deepStrictEqual(info!.missing, [deletedKey]);
+
+    const missing: entity.Key[] = [];
+    await new Promise((resolve, reject) =>
+      transaction
+        .createReadStream([deletedKey, storedKey])
+        .on('error', reject)
+        .on('missing', (keys: entity.Key[]) => missing.push(...keys))
+        .on('end', resolve)
+        .resume(),
+    );
+    assert.deepStrictEqual(missing, [deletedKey]);
+  });
+
+  it('should apply patches to the stored entities', async () => {
+    const transaction = await startTransaction();
+    const key = datastore.key(['Account', 'patched']);
+    transaction.patch(key, {name: 'patched'}, {deleteProperties: 'city'});
+
+    const [entity] = await transaction.get(key);
+    assert.strictEqual(entity.name, 'patched');
+    assert(!('city' in entity));
+    assert.strictEqual(lookupRequests.length, 1);
+  });
+
+  it('should keep the stored values of transformed properties', async () => {
+    const transaction = await startTransaction();
+    const key = datastore.key(['Account', 'counted']);
+    transaction.save({key, data: {city: Datastore.increment(1)}});
+
+    const [entity] = await transaction.get(key);
+    assert.strictEqual(entity.name, 'stored');
+    assert.strictEqual(entity.city, 'Paris');
+    assert.strictEqual(entity[Datastore.KEY], key);
+  });
+
+  it('should return the stored entities by default', async () => {
+    const transaction = await startTransaction(false);
+    const key = datastore.key(['Account', 'saved']);
+    transaction.save({key, data: {name: 'saved'}});
+
+    const [entity] = await transaction.get(key);
+    assert.strictEqual(entity.name, 'stored');
+  });
+});
+
+describe('transaction guardrails', () => {
+  let datastore: Datastore;
+  let commitRequests: google.datastore.v1.ICommitRequest[];
+  let rollbackRequests: google.datastore.v1.IRollbackRequest[];
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    datastore = getInitializedDatastoreClient();
+    commitRequests = [];
+    rollbackRequests = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.beginTransaction = (
+      request: google.datastore.v1.IBeginTransactionRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      callback(null, {transaction: Buffer.from('tx')});
+    };
+    dataClient.commit = (
+      request: google.datastore.v1.ICommitRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      commitRequests.push(request);
+      callback(null, {mutationResults: []});
+    };
+    dataClient.rollback = (
+      request: google.datastore.v1.IRollbackRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      rollbackRequests.push(request);
+      callback(null, {});
+    };
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it('should report the mutation plan', () => {
+    const transaction = datastore.transaction();
+    const key = datastore.key(['Company', 'Google']);
+    const otherKey = datastore.key(['Company', 'Alphabet']);
+    transaction.delete(key);
+    transaction.update({key, data: {rating: 10}});
+    transaction.delete(otherKey);
+
+    assert.deepStrictEqual(transaction.getMutationPlan(), {
+      mutations: [
+        {method: 'update', key},
+        {method: 'delete', key: otherKey},
+      ],
+      overwritten: [{method: 'delete', key}],
+    });
+    assert.strictEqual(transaction.modifiedEntities_[0].method, 'delete');
+  });
+
+  it('should reject a key mutated twice', async () => {
+    const transaction = datastore.transaction({duplicateKeys: 'reject'});
+    await transaction.run();
+    const key = datastore.key(['Company', 'Google']);
+    transaction.save({key, data: {rating: 1}});
+    transaction.save({key, data: {rating: 2}});
+
+    await assert.rejects(
+      transaction.commit(),
+      /The transaction mutates "Company\/Google" more than once\. Only the last mutation of a key is committed\./,
+    );
+    assert.strictEqual(commitRequests.length, 0);
+    assert.strictEqual(rollbackRequests.length, 1);
+  });
+
+  it('should warn about a key mutated twice', async () => {
+    const emitWarning = sandbox.stub(process, 'emitWarning');
+    const transaction = datastore.transaction({duplicateKeys: 'warn'});
+    await transaction.run();
+    const key = datastore.key(['Company', 'Google']);
+    transaction.save({key, data: {rating: 1}});
+    transaction.delete(key);
+    await transaction.commit();
+
+    assert.strictEqual(emitWarning.callCount, 1);
+    assert.match(
+      emitWarning.firstCall.args[0] as string,
+      /"Company\/Google" more than once/,
+    );
+    assert.strictEqual(commitRequests[0].mutations!.length, 1);
+  });
+
+  it('should reject a commit with too many mutations', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    for (let i = 1; i <= 501; i++) {
+      transaction.delete(datastore.key(['Company', i]));
+    }
+    await assert.rejects(
+      transaction.commit(),
+      /The transaction has 501 mutations, more than the 500 allowed in a commit\./,
+    );
+    assert.strictEqual(commitRequests.length, 0);
+    assert.strictEqual(rollbackRequests.length, 1);
+  });
+
+  it('should reject a commit which is too large', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    transaction.save({
+      key: datastore.key(['Company', 'Google']),
+      data: {logo: Buffer.alloc(11 * 1024 * 1024)},
+    });
+    await assert.rejects(
+      transaction.commit(),
+      /The transaction is \d+ bytes, more than the 10485760 bytes allowed in a commit\./,
+    );
+    assert.strictEqual(commitRequests.length, 0);
+  });
+
+  it('should not encode a commit which is surely small enough', async () => {
+    const encode = sandbox.spy(google.datastore.v1.CommitRequest, 'encode');
+    const transaction = datastore.transaction();
+    await transaction.run();
+    transaction.save({
+      key: datastore.key(['Company', 'Google']),
+      data: {logo: Buffer.alloc(1024 * 1024), name: 'Google'},
+    });
+    await transaction.commit();
+    assert.strictEqual(encode.callCount, 0);
+    assert.strictEqual(commitRequests.length, 1);
+  });
+
+  it('should roll back a transaction left idle', async () => {
+    const clock = sandbox.useFakeTimers({
+      toFake: ['setTimeout', 'clearTimeout'],
+    });
+    sandbox.stub(process, 'emitWarning');
+    const transaction = datastore.transaction({idleTimeoutMillis: 1000});
+    await transaction.run();
+
+    await clock.tickAsync(999);
+    transaction.delete(datastore.key(['Company', 'Google']));
+    await clock.tickAsync(999);
+    assert.strictEqual(rollbackRequests.length, 0);
+
+    await clock.tickAsync(1);
+    assert.strictEqual(rollbackRequests.length, 1);
+    await assert.rejects(
+      transaction.commit(),
+      /This transaction has already expired\./,
+    );
+  });
+});
+
+describe('pending mutations', () => {
+  let datastore: Datastore;
+  let commitRequests: google.datastore.v1.ICommitRequest[];
+
+  beforeEach(() => {
+    datastore = getInitializedDatastoreClient();
+    commitRequests = [];
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.beginTransaction = (
+      request: google.datastore.v1.IBeginTransactionRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      callback(null, {transaction: Buffer.from('tx')});
+    };
+    dataClient.commit = (
+      request: google.datastore.v1.ICommitRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      commitRequests.push(request);
+      callback(null, {mutationResults: []});
+    };
+  });
+
+  it('should list the mutations to commit', () => {
+    const transaction = datastore.transaction();
+    const key = datastore.key(['Company', 'Google']);
+    const patchedKey = datastore.key(['Company', 'Alphabet']);
+    const deletedKey = datastore.key(['Company', 'Other']);
+    transaction.delete(key);
+    transaction.insert({key, data: [{name: 'rating', value: 10}]});
+    transaction.patch(patchedKey, {'address.city': 'Mountain View'});
+    transaction.delete(deletedKey);
+
+    assert.deepStrictEqual(transaction.pendingMutations(), [
+      {method: 'insert', key, data: {rating: 10}},
+      {
+        method: 'update',
+        key: patchedKey,
+        data: {address: {city: 'Mountain View'}},
+      },
+      {method: 'delete', key: deletedKey},
+    ]);
+  });
+
+  it('should discard the mutations of a key', () => {
+    const transaction = datastore.transaction();
+    const key = datastore.key(['Company', 'Google']);
+    const otherKey = datastore.key(['Company', 'Alphabet']);
+    const incompleteKey = datastore.key(['Company']);
+    transaction.save({key, data: {}});
+    transaction.delete(datastore.key(['Company', 'Google']));
+    transaction.save({key: otherKey, data: {}});
+    transaction.save({key: incompleteKey, data: {}});
+
+    assert.strictEqual(transaction.discard(key), 2);
+    assert.strictEqual(transaction.discard(datastore.key(['Company'])), 0);
+    assert.strictEqual(transaction.discard(incompleteKey), 1);
+    assert.deepStrictEqual(
+      transaction.pendingMutations().map(mutation => mutation.key),
+      [otherKey],
+    );
+  });
+
+  it('should build the commit request without sending it', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    const key = datastore.key(['Company', 'Google']);
+    transaction.save({key, data: {rating: 10}});
+
+    const [commitRequest] = await transaction.toCommitRequest();
+    assert.strictEqual(commitRequests.length, 0);
+    assert.deepStrictEqual(commitRequest, {
+      projectId: 'project-id',
+      mode: 'TRANSACTIONAL',
+      transaction: Buffer.from('tx'),
+      mutations: [
+        {
+          upsert: {
+            key: entity.keyToKeyProto(key),
+            properties: {rating: {integerValue: '10'}},
+          },
+        },
+      ],
+    });
+
+    await transaction.commit();
+    assert.deepStrictEqual(
+      commitRequests[0].mutations,
+      commitRequest.mutations,
+    );
+  });
+
+  it('should not begin a transaction to build the commit request', async () => {
+    const transaction = datastore.transaction();
+    transaction.delete(datastore.key(['Company', 'Google']));
+
+    const [commitRequest] = await transaction.toCommitRequest();
+    assert.strictEqual(commitRequest.transaction, undefined);
+    assert.strictEqual(commitRequest.mutations!.length, 1);
+    assert.strictEqual(commitRequests.length, 0);
+  });
+});
+
+describe('lifecycle hooks', () => {
+  let datastore: Datastore;
+  let commitError: Error | null;
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    datastore = getInitializedDatastoreClient();
+    commitError = null;
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    dataClient.beginTransaction = (
+      request: google.datastore.v1.IBeginTransactionRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      callback(null, {transaction: Buffer.from('tx')});
+    };
+    dataClient.commit = (
+      request: google.datastore.v1.ICommitRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      callback(commitError, {mutationResults: [], indexUpdates: 1});
+    };
+    dataClient.rollback = (
+      request: google.datastore.v1.IRollbackRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      callback(null, {});
+    };
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it('should run the commit hooks after a commit', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    const calls: string[] = [];
+    transaction.onCommit(resp => {
+      assert.strictEqual(resp.indexUpdates, 1);
+      calls.push('first');
+    });
+    transaction.onCommit(() => {
+      calls.push('second');
+    });
+    transaction.onRollback(() => {
+      calls.push('rollback');
+    });
+
+    await transaction.commit();
+    assert.deepStrictEqual(calls, ['first', 'second']);
+  });
+
+  it('should run the rollback hooks after a failed commit', async () => {
+    commitError = new Error('commit failed');
+    const transaction = datastore.transaction();
+    await transaction.run();
+    const calls: string[] = [];
+    transaction.onCommit(() => {
+      calls.push('commit');
+    });
+    transaction.onRollback(() => {
+      calls.push('rollback');
+    });
+
+    await assert.rejects(transaction.commit(), commitError);
+    assert.deepStrictEqual(calls, ['rollback']);
+  });
+
+  it('should run the commit hooks after a conflicting write', async () => {
+    datastore.clients_.get('DatastoreClient')!.commit = (
+      request: google.datastore.v1.ICommitRequest,
+      options: {},
+      callback: Callback<{}, {}, {}>,
+    ) => {
+      callback(null, {
+        mutationResults: [{conflictDetected: true}, {version: '2'}],
+      });
+    };
+    const transaction = datastore.transaction();
+    await transaction.run();
+    const calls: string[] = [];
+    transaction.onCommit(resp => {
+      assert.strictEqual(resp.mutationResults![0].conflictDetected, true);
+      calls.push('commit');
+    });
+    transaction.onRollback(() => {
+      calls.push('rollback');
+    });
+    transaction.save([
+      {key: datastore.key(['Company', 'Google']), data: {}, ifVersion: '1'},
+      {key: datastore.key(['Company', 'Alphabet']), data: {}},
+    ]);
+
+    await assert.rejects(transaction.commit(), ConflictError);
+    assert.deepStrictEqual(calls, ['commit']);
+  });
+
+  it('should run the rollback hooks after a rollback', async () => {
+    const transaction = datastore.transaction();
+    await transaction.run();
+    let rolledBack = false;
+    transaction.onRollback(() => {
+      rolledBack = true;
+    });
+
+    await transaction.rollback();
+    assert.strictEqual(rolledBack, true);
+  });
+
+  it('should report the errors of the hooks as warnings', async () => {
+    const emitWarning = sandbox.stub(process, 'emitWarning');
+    const transaction = datastore.transaction();
+    await transaction.run();
+    transaction.onCommit(() => {
+      throw new Error('publish failed');
+    });
+    let ranNextHook = false;
+    transaction.onCommit(() => {
+      ranNextHook = true;
+    });
+
+    await transaction.commit();
+    assert.strictEqual(ranNextHook, true);
+    assert.match(emitWarning.firstCall.args[0] as string, /publish failed/);
+  });
+});
@@ -0,0 +1,119 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {Datastore} from '../src';
+import {entity} from '../src/entity';
+import {isPropertyTransform, PropertyTransform} from '../src/transform';
+import * as protos from '../protos/protos';
+import {getInitializedDatastoreClient} from './gapic-mocks/get-initialized-datastore-client';
+
+describe('PropertyTransform', () => {
+  describe('toProto', () => {
+    it('should encode a server value', () => {
+      assert.deepStrictEqual(
+        new PropertyTransform('setToServerValue').toProto('updatedAt'),
+        {property: 'updatedAt', setToServerValue: 'REQUEST_TIME'},
+      );
+    });
+
+    it('should encode numeric operands', () => {
+      assert.deepStrictEqual(
+        new PropertyTransform('increment', 1.5).toProto('score'),
+        {property: 'score', increment: {doubleValue: 1.5}},
+      );
+      assert.deepStrictEqual(
+        new PropertyTransform('maximum', new entity.Int(7)).toProto('best'),
+        {property: 'best', maximum: {integerValue: '7'}},
+      );
+      assert.deepStrictEqual(
+        new PropertyTransform('minimum', new entity.Double(1)).toProto('low'),
+        {property: 'low', minimum: {doubleValue: 1}},
+      );
+    });
+
+    it('should encode array operands', () => {
+      assert.deepStrictEqual(
+        new PropertyTransform('removeAllFromArray', ['a', 1]).toProto('tags'),
+        {
+          property: 'tags',
+          removeAllFromArray: {
+            values: [{stringValue: 'a'}, {integerValue: '1'}],
+          },
+        },
+      );
+    });
+  });
+
+  describe('isPropertyTransform', () => {
+    it('should correctly identify a PropertyTransform', () => {
+      const transform = new PropertyTransform('increment', 1);
+      assert.strictEqual(isPropertyTransform(transform), true);
+      assert.strictEqual(
+        isPropertyTransform(Object.assign({}, transform)),
+        false,
+      );
+    });
+  });
+
+  it('should not be encoded as a regular value', () => {
+    assert.throws(
+      () => entity.encodeValue([Datastore.increment(1)], 'counts'),
+      /The transform for "counts" can only be used as a property of a saved entity\./,
+    );
+  });
+
+  it('should apply transforms inside a transaction', async () => {
+    const datastore = getInitializedDatastoreClient();
+    const dataClient = datastore.clients_.get('DatastoreClient')!;
+    let commitRequest: protos.google.datastore.v1.ICommitRequest;
+    dataClient.beginTransaction = (
+      request: {},
+      options: {},
+      callback: (err: Error | null, resp: {}) => void,
+    ) => {
+      callback(null, {transaction: Buffer.from('tx')});
+    };
+    dataClient.commit = (
+      request: protos.google.datastore.v1.ICommitRequest,
+      options: {},
+      callback: (err: Error | null, resp: {}) => void,
+    ) => {
+      commitRequest = request;
+      callback(null, {
+        mutationResults: [
+          {
+            transformResults: [{valueType: 'integerValue', integerValue: '3'}],
+          },
+        ],
+      });
+    };
+
+    const transaction = datastore.transaction();
+    await transaction.run();
+    transaction.save({
+      key: datastore.key(['Page', 'home']),
+      data: {views: Datastore.increment(1)},
+    });
+    const [response] = await transaction.commit();
+
+    assert.deepStrictEqual(commitRequest!.mutations![0].propertyTransforms, [
+      {property: 'views', increment: {integerValue: '1'}},
+    ]);
+    assert.deepStrictEqual(response.mutationResults![0].transforms, {
+      views: 3,
+    });
+  });
+});